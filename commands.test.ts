@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { DINGTALK_COMMANDS, parseCommand, isCommandAvailable, formatCommandHelp } from './src/commands';
+
+function findCommand(name: string) {
+  const command = DINGTALK_COMMANDS.find((entry) => entry.name === name);
+  if (!command) throw new Error(`Unknown command ${name}`);
+  return command;
+}
+
+describe('Commands', () => {
+  describe('parseCommand', () => {
+    it('should parse a command with its arguments', () => {
+      const parsed = parseCommand('  /model   gpt-4o  ');
+
+      expect(parsed?.command.name).toBe('model');
+      expect(parsed?.args).toBe('gpt-4o');
+      expect(parsed?.openclawText).toBe('/model gpt-4o');
+    });
+
+    it('should match names case-insensitively', () => {
+      expect(parseCommand('/HELP')?.openclawText).toBe('/help');
+    });
+
+    it('should map Chinese aliases to the English command', () => {
+      const parsed = parseCommand('/思考 high');
+
+      expect(parsed?.command.name).toBe('think');
+      expect(parsed?.openclawText).toBe('/think high');
+    });
+
+    it('should accept the full-width slash', () => {
+      expect(parseCommand('／新对话')?.openclawText).toBe('/new');
+    });
+
+    it('should use a custom prefix', () => {
+      expect(parseCommand('!status', '!')?.openclawText).toBe('/status');
+      expect(parseCommand('/status', '!')).toBeNull();
+      expect(parseCommand('／status', '!')).toBeNull();
+    });
+
+    it('should return null for text that is not a known command', () => {
+      expect(parseCommand('hello /help')).toBeNull();
+      expect(parseCommand('/unknown')).toBeNull();
+      expect(parseCommand('/')).toBeNull();
+      expect(parseCommand('/ help')).toBeNull();
+    });
+  });
+
+  describe('isCommandAvailable', () => {
+    it('should limit commands to their chat types', () => {
+      expect(isCommandAvailable(findCommand('config'), 'direct')).toBe(true);
+      expect(isCommandAvailable(findCommand('config'), 'group')).toBe(false);
+      expect(isCommandAvailable(findCommand('status'), 'group')).toBe(true);
+    });
+  });
+
+  describe('formatCommandHelp', () => {
+    it('should list only commands without authorization for unauthorized senders', () => {
+      const help = formatCommandHelp({ chatType: 'direct', authorized: false });
+
+      expect(help).toBe(
+        [
+          '**可用命令**',
+          '',
+          '- /help（/帮助）：查看可用命令',
+          '- /whoami（/我是谁）：查看自己的用户 ID 和当前会话 ID',
+        ].join('\n')
+      );
+    });
+
+    it('should leave out commands not available in the chat type', () => {
+      const direct = formatCommandHelp({ chatType: 'direct', authorized: true });
+      const group = formatCommandHelp({ chatType: 'group', authorized: true });
+
+      expect(direct).toContain('- /config：查看或修改配置');
+      expect(group).not.toContain('/config');
+      expect(group).toContain('- /stop（/停止）：停止正在进行的回复');
+    });
+
+    it('should show the configured prefix', () => {
+      const help = formatCommandHelp({ chatType: 'group', authorized: true, prefix: '!' });
+
+      expect(help).toContain('- !reset（!重置）：重置当前会话');
+      expect(help).not.toContain('- /');
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest';
+import { renderDingTalkMarkdown } from './src/markdown-render';
+
+describe('DingTalk markdown rendering', () => {
+  describe('tables', () => {
+    const table = ['| 名称 | 价格 | 库存 |', '| --- | :---: | ---: |', '| 苹果 | 5 | 10 |', '| 香蕉 |  | 3 |'].join(
+      '\n'
+    );
+
+    it('should turn table rows into bullets by default', () => {
+      expect(renderDingTalkMarkdown(table)).toBe(
+        ['- **苹果** — 价格: 5 · 库存: 10', '- **香蕉** — 库存: 3'].join('\n')
+      );
+    });
+
+    it('should align a table in a code block in code mode, counting CJK as double width', () => {
+      expect(renderDingTalkMarkdown(table, { tables: 'code' })).toBe(
+        ['```', '名称  价格  库存', '----  ----  ----', '苹果  5     10', '香蕉        3', '```'].join('\n')
+      );
+    });
+
+    it('should leave tables alone when disabled', () => {
+      expect(renderDingTalkMarkdown(table, { tables: 'off' })).toBe(table);
+    });
+
+    it('should keep escaped pipes inside cells', () => {
+      const text = ['| cmd | note |', '|---|---|', '| a \\| b | or |'].join('\n');
+      expect(renderDingTalkMarkdown(text)).toBe('- **a | b** — note: or');
+    });
+
+    it('should end the table at the first line without a pipe', () => {
+      const text = ['| a | b |', '|---|---|', '| 1 | 2 |', 'after'].join('\n');
+      expect(renderDingTalkMarkdown(text)).toBe(['- **1** — b: 2', 'after'].join('\n'));
+    });
+
+    it('should not treat a pipe line without a separator row as a table', () => {
+      const text = 'a | b\nc | d';
+      expect(renderDingTalkMarkdown(text)).toBe(text);
+    });
+  });
+
+  describe('lists', () => {
+    it('should render task list items as check boxes', () => {
+      expect(renderDingTalkMarkdown('- [ ] todo\n- [x] done')).toBe('- ☐ todo\n- ☑ done');
+    });
+
+    it('should flatten nested lists, keeping depth with full-width spaces', () => {
+      const text = ['- top', '  - child', '    - grandchild', '  - child 2', '- top 2'].join('\n');
+      expect(renderDingTalkMarkdown(text)).toBe(
+        ['- top', '- 　◦ child', '- 　　◦ grandchild', '- 　◦ child 2', '- top 2'].join('\n')
+      );
+    });
+
+    it('should keep nesting when flattening is off', () => {
+      const text = '- top\n  - child';
+      expect(renderDingTalkMarkdown(text, { flattenLists: false })).toBe(text);
+    });
+
+    it('should start a new list after a paragraph', () => {
+      const text = ['  - indented', '', 'para', '  - indented again'].join('\n');
+      expect(renderDingTalkMarkdown(text)).toBe(['- indented', '', 'para', '- indented again'].join('\n'));
+    });
+  });
+
+  describe('code', () => {
+    it('should strip the fence language and leave code untouched', () => {
+      const text = ['```ts', '| a | b |', '|---|---|', '- [ ] <div>', '```'].join('\n');
+      expect(renderDingTalkMarkdown(text)).toBe(['```', '| a | b |', '|---|---|', '- [ ] <div>', '```'].join('\n'));
+    });
+
+    it('should keep the fence language when asked to', () => {
+      expect(renderDingTalkMarkdown('```ts\nx\n```', { stripCodeLanguage: false })).toBe('```ts\nx\n```');
+    });
+
+    it('should only close a fence with the same fence character and length', () => {
+      const text = ['````', '```', '<b>', '````', '<b>'].join('\n');
+      expect(renderDingTalkMarkdown(text)).toBe(['````', '```', '<b>', '````', '&lt;b>'].join('\n'));
+    });
+  });
+
+  describe('inline HTML', () => {
+    it('should escape tags outside inline code', () => {
+      expect(renderDingTalkMarkdown('use <br> or `<br>`')).toBe('use &lt;br> or `<br>`');
+    });
+
+    it('should leave comparisons alone', () => {
+      expect(renderDingTalkMarkdown('a < b and 1 <2')).toBe('a < b and 1 <2');
+    });
+
+    it('should not escape when disabled', () => {
+      expect(renderDingTalkMarkdown('<b>x</b>', { escapeHtml: false })).toBe('<b>x</b>');
+    });
+  });
+});
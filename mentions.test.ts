@@ -0,0 +1,125 @@
+import { describe, it, expect } from 'vitest';
+import { parseMentions, mergeMentions, stripBotMentions, formatMentionsLine } from './src/mentions';
+import type { DingTalkInboundMessage } from './src/types';
+
+function textMessage(content: string, atUsers: DingTalkInboundMessage['atUsers']): DingTalkInboundMessage {
+  return {
+    msgId: 'msg1',
+    msgtype: 'text',
+    createAt: Date.now(),
+    text: { content },
+    conversationType: '2',
+    conversationId: 'cid123',
+    senderId: 'sender',
+    chatbotUserId: 'bot',
+    sessionWebhook: 'https://example.com/webhook',
+    atUsers,
+  };
+}
+
+describe('Mentions', () => {
+  describe('parseMentions', () => {
+    it('should flag the robot and name the other users of a text message', () => {
+      const data = textMessage('@张三 @李四 帮忙看一下', [
+        { dingtalkId: 'bot' },
+        { dingtalkId: 'u1', staffId: 's1' },
+        { dingtalkId: 'u2' },
+      ]);
+
+      expect(parseMentions(data)).toEqual([
+        { userId: 'bot', staffId: undefined, name: undefined, isBot: true, isAtAll: false },
+        { userId: 'u1', staffId: 's1', name: '张三', isBot: false, isAtAll: false },
+        { userId: 'u2', staffId: undefined, name: '李四', isBot: false, isAtAll: false },
+      ]);
+    });
+
+    it('should leave names out when the @ tokens do not line up with atUsers', () => {
+      const data = textMessage('@张三 看一下', [{ dingtalkId: 'u1' }, { dingtalkId: 'u2' }]);
+
+      const mentions = parseMentions(data);
+      expect(mentions.map((mention) => mention.name)).toEqual([undefined, undefined]);
+    });
+
+    it('should add @所有人 for an at-all token', () => {
+      const data = textMessage('@所有人 开会了', []);
+
+      expect(parseMentions(data)).toEqual([{ name: '所有人', isBot: false, isAtAll: true }]);
+    });
+
+    it('should read at components of a rich text message', () => {
+      const data: DingTalkInboundMessage = { ...textMessage('', undefined), msgtype: 'richText', text: undefined };
+
+      const mentions = parseMentions(data, [
+        { type: 'at', atUserId: 'bot', atName: '机器人' },
+        { type: 'text', text: '你好' },
+        { type: 'at', atUserId: 'u1', atName: '张三' },
+        { type: 'at', atName: 'all' },
+      ]);
+
+      expect(mentions).toEqual([
+        { userId: 'bot', name: '机器人', isBot: true, isAtAll: false },
+        { userId: 'u1', name: '张三', isBot: false, isAtAll: false },
+        { userId: undefined, name: 'all', isBot: false, isAtAll: true },
+      ]);
+    });
+
+    it('should list a user mentioned twice once', () => {
+      const data = textMessage('@张三', [{ dingtalkId: 'u1' }]);
+
+      const mentions = parseMentions(data, [{ type: 'at', atUserId: 'u1', atName: '张三' }]);
+      expect(mentions).toHaveLength(1);
+      expect(mentions[0]).toMatchObject({ userId: 'u1', name: '张三' });
+    });
+  });
+
+  describe('mergeMentions', () => {
+    it('should keep the first entry per user and fill in missing fields', () => {
+      const merged = mergeMentions([
+        [{ userId: 'u1', isBot: false, isAtAll: false }],
+        undefined,
+        [
+          { userId: 'u1', staffId: 's1', name: '张三', isBot: false, isAtAll: false },
+          { name: '所有人', isBot: false, isAtAll: true },
+          { name: 'all', isBot: false, isAtAll: true },
+        ],
+      ]);
+
+      expect(merged).toEqual([
+        { userId: 'u1', staffId: 's1', name: '张三', isBot: false, isAtAll: false },
+        { name: '所有人', isBot: false, isAtAll: true },
+      ]);
+    });
+  });
+
+  describe('stripBotMentions', () => {
+    it('should remove the robot mention and keep the others', () => {
+      const mentions = [
+        { userId: 'bot', name: '机器人', isBot: true, isAtAll: false },
+        { userId: 'u1', name: '张三', isBot: false, isAtAll: false },
+      ];
+
+      expect(stripBotMentions('@机器人  /status   @张三', mentions)).toBe('/status @张三');
+    });
+
+    it('should return the trimmed text when the robot name is unknown', () => {
+      expect(stripBotMentions('  /help ', [{ userId: 'bot', isBot: true, isAtAll: false }])).toBe('/help');
+    });
+  });
+
+  describe('formatMentionsLine', () => {
+    it('should list the other users with their ids', () => {
+      const line = formatMentionsLine([
+        { userId: 'bot', name: '机器人', isBot: true, isAtAll: false },
+        { userId: 'u1', staffId: 's1', name: '张三', isBot: false, isAtAll: false },
+        { userId: 'u2', isBot: false, isAtAll: false },
+        { name: '所有人', isBot: false, isAtAll: true },
+      ]);
+
+      expect(line).toBe('[提及: @张三 (s1), @u2, @所有人]');
+    });
+
+    it('should be empty when only the robot is mentioned', () => {
+      expect(formatMentionsLine([{ userId: 'bot', isBot: true, isAtAll: false }])).toBe('');
+    });
+  });
+});
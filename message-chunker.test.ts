@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { splitMessageText, chunkOutgoingText } from './src/message-chunker';
+
+describe('Message chunker', () => {
+  describe('splitMessageText', () => {
+    it('should return short text unchanged', () => {
+      expect(splitMessageText('hello', 100)).toEqual(['hello']);
+    });
+
+    it('should split on paragraph boundaries', () => {
+      const paragraphs = ['a'.repeat(40), 'b'.repeat(40), 'c'.repeat(40)];
+      const chunks = splitMessageText(paragraphs.join('\n\n'), 90);
+
+      expect(chunks).toEqual([`${paragraphs[0]}\n\n${paragraphs[1]}`, paragraphs[2]]);
+    });
+
+    it('should keep list items whole when a list is split', () => {
+      const items = Array.from({ length: 6 }, (_, index) => `- item ${index} ${'x'.repeat(20)}`);
+      const chunks = splitMessageText(items.join('\n'), 70);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        expect(chunk.length).toBeLessThanOrEqual(70);
+        for (const line of chunk.split('\n')) {
+          expect(items).toContain(line);
+        }
+      }
+      expect(chunks.join('\n')).toBe(items.join('\n'));
+    });
+
+    it('should split a long line at a sentence end', () => {
+      const text = `${'第一句话'.repeat(10)}。${'第二句话'.repeat(10)}。`;
+      const chunks = splitMessageText(text, 60);
+
+      expect(chunks).toEqual([`${'第一句话'.repeat(10)}。`, `${'第二句话'.repeat(10)}。`]);
+    });
+
+    it('should hard-cut a long line without any break point', () => {
+      const chunks = splitMessageText('x'.repeat(250), 100);
+
+      expect(chunks).toEqual(['x'.repeat(100), 'x'.repeat(100), 'x'.repeat(50)]);
+    });
+
+    it('should close and re-open a code fence split across chunks, keeping its language', () => {
+      const codeLines = Array.from({ length: 12 }, (_, index) => `const value${index} = ${index};`);
+      const text = ['Intro', '', '```ts', ...codeLines, '```', '', 'Outro'].join('\n');
+      const chunks = splitMessageText(text, 120);
+
+      expect(chunks.length).toBeGreaterThan(2);
+      for (const chunk of chunks) {
+        expect(chunk.length).toBeLessThanOrEqual(120);
+        const fences = chunk.split('\n').filter((line) => line.startsWith('```'));
+        expect(fences.length % 2).toBe(0);
+        if (fences.length > 0) expect(fences[0]).toBe('```ts');
+      }
+      const code = chunks
+        .join('\n')
+        .split('\n')
+        .filter((line) => line.startsWith('const '));
+      expect(code).toEqual(codeLines);
+    });
+
+    it('should close a code fence that is never closed in the input', () => {
+      const text = ['```', ...Array.from({ length: 10 }, () => 'y'.repeat(20))].join('\n');
+      const chunks = splitMessageText(text, 80);
+
+      for (const chunk of chunks) {
+        expect(chunk.startsWith('```\n')).toBe(true);
+        expect(chunk.endsWith('\n```')).toBe(true);
+      }
+    });
+
+    it('should keep tilde fences and longer backtick fences intact', () => {
+      const text = ['~~~~python', ...Array.from({ length: 8 }, () => 'print("hi")  # ```'), '~~~~'].join('\n');
+      const chunks = splitMessageText(text, 80);
+
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        expect(chunk.startsWith('~~~~python\n')).toBe(true);
+        expect(chunk.endsWith('\n~~~~')).toBe(true);
+      }
+    });
+  });
+
+  describe('chunkOutgoingText', () => {
+    it('should not number a message that fits', () => {
+      expect(chunkOutgoingText('short', 100)).toEqual(['short']);
+    });
+
+    it('should number the parts and keep each within the limit', () => {
+      const text = Array.from({ length: 5 }, (_, index) => `${index}${'z'.repeat(60)}`).join('\n\n');
+      const chunks = chunkOutgoingText(text, 100);
+
+      expect(chunks.length).toBe(5);
+      chunks.forEach((chunk, index) => {
+        expect(chunk.length).toBeLessThanOrEqual(100);
+        expect(chunk.endsWith(`\n\n(${index + 1}/5)`)).toBe(true);
+      });
+    });
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { markMessageSeen, getMessageDedupStats, flushMessageDedupStore } from './src/message-dedup';
+
+describe('Message de-duplication', () => {
+  let accountSeq = 0;
+  let accountId: string;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+    accountId = `dedup-test-${++accountSeq}`;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should accept a message the first time and drop redeliveries', () => {
+    expect(markMessageSeen(accountId, 'msg-1')).toBe(true);
+    expect(markMessageSeen(accountId, 'msg-1')).toBe(false);
+    expect(markMessageSeen(accountId, 'msg-2')).toBe(true);
+
+    expect(getMessageDedupStats(accountId)).toEqual({ tracked: 2, dropped: 1, persistent: false });
+  });
+
+  it('should always accept messages without an id', () => {
+    expect(markMessageSeen(accountId, undefined)).toBe(true);
+    expect(markMessageSeen(accountId, undefined)).toBe(true);
+  });
+
+  it('should keep accounts separate', () => {
+    expect(markMessageSeen(accountId, 'msg-1')).toBe(true);
+    expect(markMessageSeen(`${accountId}-other`, 'msg-1')).toBe(true);
+  });
+
+  it('should accept a message again once its TTL has passed', () => {
+    expect(markMessageSeen(accountId, 'msg-1', { ttlMs: 1000 })).toBe(true);
+
+    vi.advanceTimersByTime(999);
+    expect(markMessageSeen(accountId, 'msg-1', { ttlMs: 1000 })).toBe(false);
+
+    vi.advanceTimersByTime(1);
+    expect(markMessageSeen(accountId, 'msg-1', { ttlMs: 1000 })).toBe(true);
+  });
+
+  it('should evict expired entries first, then the oldest, when over capacity', () => {
+    markMessageSeen(accountId, 'short-lived', { ttlMs: 100, maxEntries: 3 });
+    markMessageSeen(accountId, 'msg-1', { maxEntries: 3 });
+    markMessageSeen(accountId, 'msg-2', { maxEntries: 3 });
+    vi.advanceTimersByTime(100);
+
+    // Over capacity: the expired entry goes, the rest fit
+    markMessageSeen(accountId, 'msg-3', { maxEntries: 3 });
+    expect(getMessageDedupStats(accountId).tracked).toBe(3);
+    expect(markMessageSeen(accountId, 'msg-1', { maxEntries: 3 })).toBe(false);
+
+    // Over capacity with nothing expired: the oldest goes
+    markMessageSeen(accountId, 'msg-4', { maxEntries: 3 });
+    expect(getMessageDedupStats(accountId).tracked).toBe(3);
+    expect(markMessageSeen(accountId, 'msg-1', { maxEntries: 3 })).toBe(true);
+  });
+
+  describe('persistence', () => {
+    let storeDir: string;
+
+    beforeEach(() => {
+      storeDir = fs.mkdtempSync(path.join(os.tmpdir(), 'dingtalk-dedup-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(storeDir, { recursive: true, force: true });
+    });
+
+    it('should write seen ids to disk after the debounce delay', () => {
+      const storeFile = path.join(storeDir, `dingtalk-dedup-${accountId}.json`);
+      markMessageSeen(accountId, 'msg-1', { storeDir });
+      expect(fs.existsSync(storeFile)).toBe(false);
+
+      vi.advanceTimersByTime(1000);
+      expect(Object.keys(JSON.parse(fs.readFileSync(storeFile, 'utf8')))).toEqual(['msg-1']);
+      expect(getMessageDedupStats(accountId).persistent).toBe(true);
+    });
+
+    it('should write immediately on flush', () => {
+      markMessageSeen(accountId, 'msg-1', { storeDir });
+      flushMessageDedupStore(accountId);
+
+      expect(fs.existsSync(path.join(storeDir, `dingtalk-dedup-${accountId}.json`))).toBe(true);
+    });
+
+    it('should load unexpired ids from an existing store and skip expired ones', () => {
+      const now = Date.now();
+      fs.writeFileSync(
+        path.join(storeDir, `dingtalk-dedup-${accountId}.json`),
+        JSON.stringify({ 'msg-live': now + 60_000, 'msg-expired': now - 1 })
+      );
+
+      expect(markMessageSeen(accountId, 'msg-live', { storeDir })).toBe(false);
+      expect(markMessageSeen(accountId, 'msg-expired', { storeDir })).toBe(true);
+    });
+
+    it('should start empty when the store file is corrupt', () => {
+      fs.writeFileSync(path.join(storeDir, `dingtalk-dedup-${accountId}.json`), '{not json');
+      const log = { warn: vi.fn() };
+
+      expect(markMessageSeen(accountId, 'msg-1', { storeDir }, log)).toBe(true);
+      expect(log.warn).toHaveBeenCalledWith(expect.stringContaining('Failed to load message dedup store'));
+    });
+  });
+});
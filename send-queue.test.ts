@@ -0,0 +1,210 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { enqueueSend, getSendQueueStats } from './src/send-queue';
+
+describe('Send queue', () => {
+  let appSeq = 0;
+  let appKey: string;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    appKey = `send-queue-test-${++appSeq}`;
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  function deferred<T>(): { promise: Promise<T>; resolve: (value: T) => void } {
+    let resolve!: (value: T) => void;
+    const promise = new Promise<T>((res) => {
+      resolve = res;
+    });
+    return { promise, resolve };
+  }
+
+  describe('ordering', () => {
+    it('should run sends to one conversation one at a time, in submission order', async () => {
+      const first = deferred<string>();
+      const calls: string[] = [];
+      const runFirst = vi.fn(() => {
+        calls.push('first');
+        return first.promise;
+      });
+      const runSecond = vi.fn(async () => {
+        calls.push('second');
+        return 'second';
+      });
+
+      const firstResult = enqueueSend(appKey, 'conv', runFirst);
+      const secondResult = enqueueSend(appKey, 'conv', runSecond);
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(calls).toEqual(['first']);
+      expect(getSendQueueStats(appKey)).toMatchObject({ depth: 2, conversations: 1 });
+
+      first.resolve('first');
+      await expect(firstResult).resolves.toBe('first');
+      await expect(secondResult).resolves.toBe('second');
+      expect(calls).toEqual(['first', 'second']);
+    });
+
+    it('should not hold one conversation behind another', async () => {
+      const blocked = deferred<string>();
+      enqueueSend(appKey, 'conv-a', () => blocked.promise);
+      const other = enqueueSend(appKey, 'conv-b', async () => 'b');
+
+      await expect(other).resolves.toBe('b');
+      blocked.resolve('a');
+    });
+
+    it('should pass failures through to the caller and keep draining', async () => {
+      const failed = enqueueSend(appKey, 'conv', async () => {
+        throw new Error('boom');
+      });
+      const next = enqueueSend(appKey, 'conv', async () => 'next');
+
+      await expect(failed).rejects.toThrow('boom');
+      await expect(next).resolves.toBe('next');
+    });
+  });
+
+  describe('rate limits', () => {
+    it('should refill conversation tokens over time', async () => {
+      const run = vi.fn(async () => 'ok');
+      const options = { conversationPerMinute: 2 };
+
+      const sends = [1, 2, 3].map(() => enqueueSend(appKey, 'conv', run, options));
+      await vi.advanceTimersByTimeAsync(0);
+      expect(run).toHaveBeenCalledTimes(2);
+
+      // 2 per minute refills one token every 30s
+      await vi.advanceTimersByTimeAsync(29_000);
+      expect(run).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(1_000);
+      expect(run).toHaveBeenCalledTimes(3);
+
+      await Promise.all(sends);
+    });
+
+    it('should share the app bucket across conversations', async () => {
+      const run = vi.fn(async () => 'ok');
+      const options = { appPerSecond: 2 };
+
+      const sends = ['a', 'b', 'c'].map((conversation) => enqueueSend(appKey, conversation, run, options));
+      await vi.advanceTimersByTimeAsync(0);
+      expect(run).toHaveBeenCalledTimes(2);
+
+      await vi.advanceTimersByTimeAsync(500);
+      expect(run).toHaveBeenCalledTimes(3);
+
+      await Promise.all(sends);
+    });
+
+    it('should only apply the app bucket to app-limit-only queues', async () => {
+      const run = vi.fn(async () => 'ok');
+      const options = { conversationPerMinute: 1, appPerSecond: 100, appLimitOnly: true };
+
+      const sends = Array.from({ length: 10 }, () => enqueueSend(appKey, 'card:1', run, options));
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect(run).toHaveBeenCalledTimes(10);
+      await Promise.all(sends);
+    });
+  });
+
+  describe('retries', () => {
+    it('should retry a 429 after its Retry-After delay, holding back the conversation', async () => {
+      const throttled = Object.assign(new Error('Too Many Requests'), {
+        response: { status: 429, headers: { 'retry-after': '2' }, data: {} },
+      });
+      const run = vi.fn().mockRejectedValueOnce(throttled).mockResolvedValueOnce('sent');
+      const later = vi.fn(async () => 'later');
+
+      const result = enqueueSend(appKey, 'conv', run);
+      const laterResult = enqueueSend(appKey, 'conv', later);
+      await vi.advanceTimersByTimeAsync(0);
+      expect(run).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1_999);
+      expect(run).toHaveBeenCalledTimes(1);
+      expect(later).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(result).resolves.toBe('sent');
+      await expect(laterResult).resolves.toBe('later');
+      expect(getSendQueueStats(appKey)).toMatchObject({ throttled: 1, retried: 1, depth: 0 });
+    });
+
+    it('should accept Retry-After as an HTTP date', async () => {
+      vi.setSystemTime(new Date('2026-01-01T00:00:00Z'));
+      const throttled = Object.assign(new Error('Too Many Requests'), {
+        response: { status: 429, headers: { 'retry-after': 'Thu, 01 Jan 2026 00:00:05 GMT' }, data: {} },
+      });
+      const run = vi.fn().mockRejectedValueOnce(throttled).mockResolvedValueOnce('sent');
+
+      const result = enqueueSend(appKey, 'conv', run);
+      await vi.advanceTimersByTimeAsync(4_999);
+      expect(run).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      await expect(result).resolves.toBe('sent');
+    });
+
+    it('should retry throttling errcodes in a successful response with backoff', async () => {
+      const run = vi
+        .fn()
+        .mockResolvedValueOnce({ status: 200, data: { errcode: 130101, errmsg: 'send too fast' } })
+        .mockResolvedValueOnce({ status: 200, data: { errcode: 0 } });
+
+      const result = enqueueSend(appKey, 'conv', run);
+      await vi.advanceTimersByTimeAsync(999);
+      expect(run).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+
+      await expect(result).resolves.toEqual({ status: 200, data: { errcode: 0 } });
+    });
+
+    it('should retry transient network errors', async () => {
+      const reset = Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+      const run = vi.fn().mockRejectedValueOnce(reset).mockResolvedValueOnce('sent');
+
+      const result = enqueueSend(appKey, 'conv', run);
+      await vi.advanceTimersByTimeAsync(1_000);
+
+      await expect(result).resolves.toBe('sent');
+      expect(getSendQueueStats(appKey)).toMatchObject({ throttled: 0, retried: 1 });
+    });
+
+    it('should give up after maxRetries', async () => {
+      const throttled = Object.assign(new Error('Too Many Requests'), {
+        response: { status: 429, headers: {}, data: {} },
+      });
+      const run = vi.fn().mockRejectedValue(throttled);
+
+      const result = enqueueSend(appKey, 'conv', run, { maxRetries: 2 });
+      const settled = expect(result).rejects.toBe(throttled);
+      await vi.advanceTimersByTimeAsync(1_000 + 2_000);
+
+      await settled;
+      expect(run).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reject a response still throttled after maxRetries', async () => {
+      const run = vi.fn().mockResolvedValue({ status: 200, data: { errcode: 130101, errmsg: 'send too fast' } });
+
+      const result = enqueueSend(appKey, 'conv', run, { maxRetries: 1 });
+      const settled = expect(result).rejects.toThrow('still throttled after 1 retries: 130101');
+      await vi.advanceTimersByTimeAsync(1_000);
+
+      await settled;
+      expect(run).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry other errors', async () => {
+      const badRequest = Object.assign(new Error('Bad Request'), { response: { status: 400, data: {} } });
+      const run = vi.fn().mockRejectedValue(badRequest);
+
+      await expect(enqueueSend(appKey, 'conv', run)).rejects.toBe(badRequest);
+      expect(run).toHaveBeenCalledTimes(1);
+    });
+  });
+});
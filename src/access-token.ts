@@ -0,0 +1,191 @@
+import axios from 'axios';
+import { retryWithBackoff } from '../utils';
+import type { AccessTokenCacheEntry, AccessTokenCacheInfo, DingTalkConfig, Logger, TokenInfo } from './types';
+
+const ACCESS_TOKEN_URL = 'https://api.dingtalk.com/v1.0/oauth2/accessToken';
+
+// Tokens closer than this to expiry are never handed out
+const TOKEN_EXPIRY_MARGIN_MS = 60 * 1000;
+
+// Tokens closer than this to expiry are still served, but refreshed in the background
+const TOKEN_PROACTIVE_REFRESH_MS = 5 * 60 * 1000;
+
+// Access token cache, keyed per application (corpId + clientId)
+const tokenCache = new Map<string, AccessTokenCacheEntry>();
+
+// In-flight refresh requests, so concurrent callers share a single request
+const pendingRefreshes = new Map<string, Promise<string>>();
+
+// Bumped when a cache entry is cleared, so a refresh started before the clear does not write it back
+const cacheGenerations = new Map<string, number>();
+
+/**
+ * Build the cache key for an application.
+ * Two accounts only share a token when they use the same app in the same corp.
+ */
+function getTokenCacheKey(config: DingTalkConfig): string {
+  return `${config.corpId || '-'}:${config.clientId || '-'}`;
+}
+
+function maskClientId(clientId?: string): string {
+  return clientId ? `${clientId.substring(0, 8)}...` : 'unknown';
+}
+
+// Request a new token for the application and store it in the cache
+async function requestAccessToken(config: DingTalkConfig, cacheKey: string, log?: Logger): Promise<string> {
+  log?.info?.(`[DingTalk] Requesting new access token - clientId: ${maskClientId(config.clientId)}`);
+  log?.debug?.(`[DingTalk] Access token URL: ${ACCESS_TOKEN_URL}`);
+  const generation = cacheGenerations.get(cacheKey) || 0;
+
+  return retryWithBackoff(
+    async () => {
+      const requestedAt = Date.now();
+      const response = await axios.post<TokenInfo>(ACCESS_TOKEN_URL, {
+        appKey: config.clientId,
+        appSecret: config.clientSecret,
+      });
+
+      log?.debug?.(`[DingTalk] Access token response - expireIn: ${response.data.expireIn} seconds`);
+
+      const entry: AccessTokenCacheEntry = {
+        accessToken: response.data.accessToken,
+        expiresAt: requestedAt + response.data.expireIn * 1000,
+        obtainedAt: requestedAt,
+        clientId: config.clientId,
+        corpId: config.corpId,
+      };
+      if ((cacheGenerations.get(cacheKey) || 0) !== generation) {
+        log?.debug?.(`[DingTalk] Access token cache was cleared during refresh, not caching the new token`);
+        return entry.accessToken;
+      }
+      tokenCache.set(cacheKey, entry);
+      log?.info?.(`[DingTalk] New access token obtained, expires at: ${new Date(entry.expiresAt).toISOString()}`);
+
+      return entry.accessToken;
+    },
+    { maxRetries: 3, log }
+  );
+}
+
+// Start (or join) the refresh for an application
+function refreshAccessToken(config: DingTalkConfig, cacheKey: string, log?: Logger): Promise<string> {
+  const pending = pendingRefreshes.get(cacheKey);
+  if (pending) {
+    log?.debug?.(`[DingTalk] Joining in-flight access token refresh for ${maskClientId(config.clientId)}`);
+    return pending;
+  }
+
+  const refresh = requestAccessToken(config, cacheKey, log).finally(() => {
+    // A clear may have replaced this refresh with a newer one
+    if (pendingRefreshes.get(cacheKey) === refresh) pendingRefreshes.delete(cacheKey);
+  });
+  pendingRefreshes.set(cacheKey, refresh);
+  return refresh;
+}
+
+/**
+ * Get an access token for the application described by config.
+ * Tokens are cached per clientId/corpId; concurrent callers share one refresh,
+ * and tokens nearing expiry are refreshed in the background while still valid.
+ */
+export async function getAccessToken(config: DingTalkConfig, log?: Logger): Promise<string> {
+  const cacheKey = getTokenCacheKey(config);
+  const cached = tokenCache.get(cacheKey);
+  const now = Date.now();
+
+  if (cached && cached.expiresAt > now + TOKEN_EXPIRY_MARGIN_MS) {
+    if (cached.expiresAt <= now + TOKEN_PROACTIVE_REFRESH_MS && !pendingRefreshes.has(cacheKey)) {
+      log?.debug?.(`[DingTalk] Access token expires soon, refreshing in background`);
+      refreshAccessToken(config, cacheKey, log).catch((err: unknown) => {
+        log?.warn?.(
+          `[DingTalk] Background access token refresh failed: ${err instanceof Error ? err.message : String(err)}`
+        );
+      });
+    }
+    log?.debug?.(`[DingTalk] Using cached access token (expires at: ${new Date(cached.expiresAt).toISOString()})`);
+    return cached.accessToken;
+  }
+
+  return refreshAccessToken(config, cacheKey, log);
+}
+
+/**
+ * Drop the cached token for an application so the next call fetches a new one.
+ * Used when DingTalk rejects a token before its advertised expiry.
+ */
+export function invalidateAccessToken(config: DingTalkConfig, log?: Logger): void {
+  const cacheKey = getTokenCacheKey(config);
+  if (tokenCache.delete(cacheKey)) {
+    log?.info?.(`[DingTalk] Access token invalidated for ${maskClientId(config.clientId)}`);
+  }
+}
+
+/**
+ * Run a request with the application's access token.
+ * If DingTalk answers 401, the token is invalidated and the request retried once with a fresh token.
+ */
+export async function withAccessToken<T>(
+  config: DingTalkConfig,
+  fn: (token: string) => Promise<T>,
+  log?: Logger
+): Promise<T> {
+  const token = await getAccessToken(config, log);
+  try {
+    return await fn(token);
+  } catch (err) {
+    if (!axios.isAxiosError(err) || err.response?.status !== 401) {
+      throw err;
+    }
+    log?.warn?.(`[DingTalk] Request rejected with 401, refreshing access token and retrying`);
+    invalidateAccessToken(config, log);
+    const freshToken = await getAccessToken(config, log);
+    return await fn(freshToken);
+  }
+}
+
+/**
+ * Inspect cached tokens. Pass a config to inspect a single application.
+ * Token values are never included.
+ */
+export function getAccessTokenCacheInfo(config?: DingTalkConfig): AccessTokenCacheInfo[] {
+  const keys = config ? [getTokenCacheKey(config)] : Array.from(tokenCache.keys());
+  const now = Date.now();
+  const result: AccessTokenCacheInfo[] = [];
+
+  for (const cacheKey of keys) {
+    const entry = tokenCache.get(cacheKey);
+    if (!entry) continue;
+    result.push({
+      cacheKey,
+      clientId: entry.clientId,
+      corpId: entry.corpId,
+      obtainedAt: entry.obtainedAt,
+      expiresAt: entry.expiresAt,
+      valid: entry.expiresAt > now + TOKEN_EXPIRY_MARGIN_MS,
+      refreshing: pendingRefreshes.has(cacheKey),
+    });
+  }
+
+  return result;
+}
+
+// Drop the cache entry and any in-flight refresh of an application
+function clearCacheEntry(cacheKey: string): void {
+  tokenCache.delete(cacheKey);
+  pendingRefreshes.delete(cacheKey);
+  cacheGenerations.set(cacheKey, (cacheGenerations.get(cacheKey) || 0) + 1);
+}
+
+/**
+ * Clear cached tokens. Pass a config to clear a single application, or nothing to clear all.
+ * Refreshes already in flight still resolve for their callers, but no longer update the cache.
+ */
+export function clearAccessTokenCache(config?: DingTalkConfig): void {
+  if (config) {
+    clearCacheEntry(getTokenCacheKey(config));
+    return;
+  }
+  for (const cacheKey of new Set([...tokenCache.keys(), ...pendingRefreshes.keys()])) {
+    clearCacheEntry(cacheKey);
+  }
+}
@@ -0,0 +1,98 @@
+import type { CardActionPayload, DingTalkInboundMessage } from './types';
+
+/**
+ * Interactive card callbacks (TOPIC_CARD).
+ * A button press or form submit on a card arrives as a card callback; it is turned into an
+ * inbound message so the agent sees the action and can carry on a multi-step flow.
+ */
+
+interface CardCallbackData {
+  outTrackId?: string;
+  userId?: string;
+  openConversationId?: string;
+  spaceType?: string;
+  spaceId?: string;
+  content?: string | Record<string, unknown>;
+}
+
+function parseJsonObject(value: unknown): Record<string, unknown> | null {
+  if (value && typeof value === 'object') return value as Record<string, unknown>;
+  if (typeof value !== 'string' || !value.trim()) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return parsed && typeof parsed === 'object' ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse the data of a card callback. `resolveConversationId` maps the card (outTrackId, the
+ * cardBizId it was sent with) to the conversation it was sent to, when the plugin knows it.
+ * Returns null for callbacks that carry no action.
+ */
+export function parseCardCallback(
+  raw: unknown,
+  resolveConversationId: (cardBizId: string) => string | undefined
+): CardActionPayload | null {
+  const data = parseJsonObject(raw) as CardCallbackData | null;
+  if (!data?.outTrackId || !data.userId) return null;
+
+  const privateData = parseJsonObject(parseJsonObject(data.content)?.cardPrivateData) || {};
+  const actionIds: string[] = Array.isArray(privateData.actionIds) ? privateData.actionIds.map(String) : [];
+  const params: Record<string, unknown> = parseJsonObject(privateData.params) || {};
+  if (actionIds.length === 0 && Object.keys(params).length === 0) return null;
+
+  const conversationId =
+    resolveConversationId(data.outTrackId) ||
+    data.openConversationId ||
+    (data.spaceType === 'IM_GROUP' ? data.spaceId : undefined) ||
+    data.userId;
+
+  return {
+    cardBizId: data.outTrackId,
+    actionIds,
+    params,
+    userId: data.userId,
+    conversationId,
+  };
+}
+
+/**
+ * Text the agent receives for a card action
+ */
+export function formatCardActionText(action: CardActionPayload): string {
+  const lines = [`[卡片操作] ${action.actionIds.join(', ') || 'submit'}`];
+  if (Object.keys(action.params).length > 0) {
+    lines.push(`参数: ${JSON.stringify(action.params)}`);
+  }
+  lines.push(`卡片: ${action.cardBizId}`);
+  return lines.join('\n');
+}
+
+/**
+ * Inbound message for a card action. There is no sessionWebhook, so replies go through the proactive API.
+ */
+export function buildCardActionMessage(action: CardActionPayload, messageId: string): DingTalkInboundMessage {
+  const isGroup = action.conversationId.startsWith('cid');
+  return {
+    msgId: `card_${messageId}`,
+    msgtype: 'text',
+    createAt: Date.now(),
+    text: { content: formatCardActionText(action) },
+    conversationType: isGroup ? '2' : '1',
+    conversationId: action.conversationId,
+    senderId: action.userId,
+    senderStaffId: action.userId,
+    chatbotUserId: '',
+    sessionWebhook: '',
+    cardAction: action,
+  };
+}
+
+/**
+ * Acknowledgement text appended to the card, with {action} replaced by the action ids
+ */
+export function formatCardAckText(template: string, action: CardActionPayload): string {
+  return template.replace(/\{action\}/g, action.actionIds.join(', ') || 'submit');
+}
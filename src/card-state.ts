@@ -0,0 +1,116 @@
+import type { CardState, CardStep } from './types';
+
+/**
+ * Reply card lifecycle (card mode): the text shown for each state, and the step list
+ * built from the dispatcher's tool events.
+ */
+
+export const CARD_PENDING_TEXT = '🤔 思考中，请稍候...';
+
+// Only the most recent steps are shown, to keep the card short
+const MAX_VISIBLE_STEPS = 6;
+const MAX_ERROR_SUMMARY_LENGTH = 200;
+
+const STEP_ICONS: Record<CardStep['status'], string> = {
+  running: '⏳',
+  done: '✅',
+  failed: '⚠️',
+};
+
+/**
+ * Tool start / item events from the dispatcher, reduced to what the card shows
+ */
+export interface CardStepEvent {
+  id?: string;
+  name?: string;
+  title?: string;
+  phase?: string;
+  status?: string;
+}
+
+// String field of a dispatcher event; other values read as missing
+function stringField(event: Record<string, unknown>, key: string): string | undefined {
+  const value = event[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+/**
+ * Narrow a tool start / item event from the dispatcher. Returns null for events that are not
+ * objects or are marked hideFromChannelProgress.
+ */
+export function toCardStepEvent(value: unknown): CardStepEvent | null {
+  if (!value || typeof value !== 'object') return null;
+  const event = value as Record<string, unknown>;
+  if (event.hideFromChannelProgress) return null;
+  return {
+    id: stringField(event, 'toolCallId') || stringField(event, 'itemId'),
+    name: stringField(event, 'name'),
+    title: stringField(event, 'title'),
+    phase: stringField(event, 'phase'),
+    status: stringField(event, 'status'),
+  };
+}
+
+/**
+ * Add or update the step for a tool event. Returns false when the event has nothing to show.
+ */
+export function applyCardStepEvent(steps: CardStep[], event: CardStepEvent): boolean {
+  const label = event.title || event.name;
+  const id = event.id || label;
+  if (!id || !label) return false;
+
+  const outcome = `${event.status || ''} ${event.phase || ''}`.toLowerCase();
+  const status: CardStep['status'] = /fail|error/.test(outcome)
+    ? 'failed'
+    : /complete|done|end|result|success/.test(outcome)
+      ? 'done'
+      : 'running';
+
+  const existing = steps.find((step) => step.id === id);
+  if (existing) {
+    if (existing.status === status && existing.label === label) return false;
+    existing.status = status;
+    existing.label = label;
+  } else {
+    steps.push({ id, label, status });
+  }
+  return true;
+}
+
+/**
+ * One-line summary of an error for the failed card
+ */
+export function summarizeCardError(err: unknown): string {
+  const message = err instanceof Error ? err.message : String(err ?? '');
+  const firstLine = message.split('\n').find((line) => line.trim()) || '未知错误';
+  return firstLine.length > MAX_ERROR_SUMMARY_LENGTH ? `${firstLine.slice(0, MAX_ERROR_SUMMARY_LENGTH)}…` : firstLine;
+}
+
+/**
+ * Card text for a state. `text` is the answer delivered so far.
+ */
+export function renderCardStateText(view: {
+  state: CardState;
+  text?: string;
+  steps?: CardStep[];
+  error?: string;
+}): string {
+  const text = view.text?.trim() || '';
+
+  switch (view.state) {
+    case 'pending':
+      return CARD_PENDING_TEXT;
+    case 'in-progress': {
+      const steps = (view.steps || []).slice(-MAX_VISIBLE_STEPS);
+      const stepLines = steps.map((step) => `- ${STEP_ICONS[step.status]} ${step.label}`);
+      const progress = ['**⏳ 处理中...**', ...stepLines].join('\n');
+      return text ? `${text}\n\n---\n\n${progress}` : progress;
+    }
+    case 'completed':
+      return text || '（无回复内容）';
+    case 'failed': {
+      const failure = `**❌ 处理失败**：${view.error || '未知错误'}\n\n请稍后重试，或重新发送消息。`;
+      return text ? `${text}\n\n---\n\n${failure}` : failure;
+    }
+  }
+}
@@ -1,4 +1,4 @@
-import { DWClient, TOPIC_ROBOT } from 'dingtalk-stream';
+import { DWClient, TOPIC_ROBOT, TOPIC_CARD } from 'dingtalk-stream';
 import axios from 'axios';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
@@ -7,12 +7,55 @@ import { randomUUID } from 'node:crypto';
 import FormData from 'form-data';
 import type { OpenClawConfig } from 'openclaw/plugin-sdk';
 import { buildChannelConfigSchema } from 'openclaw/plugin-sdk';
-import { cleanupOrphanedTempFiles, retryWithBackoff, createLoggerWithLocation } from '../utils';
+import { cleanupOrphanedTempFiles, retryWithBackoff, createLoggerWithLocation, getErrorMessage } from '../utils';
 import { getDingTalkRuntime } from './runtime';
+import {
+  getAccessToken,
+  withAccessToken,
+  invalidateAccessToken,
+  getAccessTokenCacheInfo,
+  clearAccessTokenCache,
+} from './access-token';
+import { createConnectionSupervisor, getConnectionStatus } from './connection-supervisor';
+import { markMessageSeen, getMessageDedupStats, flushMessageDedupStore } from './message-dedup';
+import { chunkOutgoingText, DEFAULT_TEXT_CHUNK_LIMIT } from './message-chunker';
+import { renderDingTalkMarkdown } from './markdown-render';
+import {
+  resolveMediaType,
+  getMediaDurationMs,
+  resolveVideoCover,
+  buildProactiveMediaMessage,
+  buildWebhookMediaMessage,
+} from './media-message';
+import { resolveMediaSource, releaseMediaSource } from './media-source';
+import { parseRichMessage, buildWebhookRichMessage, buildProactiveRichMessage } from './rich-message';
+import { parseCardCallback, buildCardActionMessage, formatCardAckText } from './card-callback';
+import { parseQuotedMessage } from './quoted-message';
+import { formatMentionsLine, mergeMentions, parseMentions, stripBotMentions } from './mentions';
+import { getMergeKey, looksComplete, resolveMergeOptions } from './message-merge';
+import { abortSessionTurns, beginSessionTurn } from './session-coordinator';
+import { formatCommandHelp, isCommandAvailable, parseCommand } from './commands';
+import {
+  CARD_PENDING_TEXT,
+  applyCardStepEvent,
+  renderCardStateText,
+  summarizeCardError,
+  toCardStepEvent,
+  type CardStepEvent,
+} from './card-state';
+import { enqueueSend, getSendQueueStats } from './send-queue';
+import { recordSentMessage, getSentMessages, forgetSentMessages } from './sent-messages';
+import {
+  trackReadStatus,
+  untrackReadStatus,
+  getTrackedReadStatus,
+  listTrackedReadStatuses,
+  startReadStatusPoller,
+} from './read-status';
 import { DingTalkConfigSchema } from './config-schema.js';
 import type {
   DingTalkConfig,
-  TokenInfo,
+  DingTalkGroupConfig,
   DingTalkInboundMessage,
   MessageContent,
   RichTextContent,
@@ -22,6 +65,7 @@ import type {
   SessionMediaFile,
   HandleDingTalkMessageParams,
   ProactiveMessagePayload,
+  ProactiveSendResult,
   SessionWebhookResponse,
   AxiosResponse,
   Logger,
@@ -32,13 +76,27 @@ import type {
   InteractiveCardUpdateRequest,
   CardInstance,
   MediaUploadResponse,
-  FileMessageWebhookResponse,
+  OutboundMedia,
+  OutboundMediaType,
+  SendQueueOptions,
+  MediaSourceOptions,
+  ResolvedMediaSource,
+  ReplyTarget,
+  WebhookAtMentions,
+  RichMessage,
+  CardActionPayload,
+  AICardInstance,
+  CardState,
+  BusyPolicy,
+  ParsedCommand,
+  RecallMessageResult,
+  MessageReader,
+  MessageReadStatus,
+  ResolvedAccount,
+  GroupPolicyResolution,
+  SendPayloadParams,
 } from './types';
 
-// Access Token cache
-let accessToken: string | null = null;
-let accessTokenExpiry = 0;
-
 // Card instance cache for streaming updates
 const cardInstances = new Map<string, CardInstance>();
 
@@ -53,19 +111,18 @@ const CARD_UPDATE_TIMEOUT = 60000; // 60 seconds of inactivity = finalized
 // Card cache TTL (1 hour)
 const CARD_CACHE_TTL = 60 * 60 * 1000; // 1 hour
 
-// Message merge cache for batch processing
+// Message merge cache for batch processing (settings: config.merge, see message-merge.ts)
 const messageMergeCache = new Map<string, MergedMessageEntry>();
-const MESSAGE_MERGE_WINDOW_MS = 2000; // 2 seconds merge window
-const MESSAGE_MERGE_MAX_MESSAGES = 5; // Max 5 messages per merge
+// accountId -> merged turns handled (buffers of more than one message)
+const mergedTurnCounts = new Map<string, number>();
 
 // Periodic cleanup of stale merge cache entries (every 5 minutes)
 setInterval(() => {
   const now = Date.now();
   let cleaned = 0;
-  // Clean up entries older than 10 seconds (buffer beyond 2s window)
   messageMergeCache.forEach((entry, key) => {
-    // Clean up entries older than 10 seconds (5s buffer beyond 2s window + 3s processing)
-    if (now - entry.startTime > 10000) {
+    // Clean up entries whose timer should long have fired (window + 8s for processing)
+    if (now - entry.startTime > entry.windowMs + 8000) {
       clearTimeout(entry.timer);
       messageMergeCache.delete(key);
       cleaned++;
@@ -76,6 +133,75 @@ setInterval(() => {
   }
 }, 300000);
 
+// In-flight message handling per account, drained on gateway shutdown
+const inflightHandlers = new Map<string, Set<Promise<void>>>();
+
+// Register a running handler so shutdown can wait for it
+function trackInflight(accountId: string, task: Promise<void>): Promise<void> {
+  let tasks = inflightHandlers.get(accountId);
+  if (!tasks) {
+    tasks = new Set();
+    inflightHandlers.set(accountId, tasks);
+  }
+  const tracked = task.finally(() => {
+    tasks.delete(tracked);
+  });
+  tasks.add(tracked);
+  return tracked;
+}
+
+/**
+ * Wait for in-flight handlers of an account to finish, up to timeoutMs.
+ * Returns false if the deadline passed with handlers still running.
+ */
+async function waitForInflight(accountId: string, timeoutMs: number, log?: Logger): Promise<boolean> {
+  const tasks = inflightHandlers.get(accountId);
+  if (!tasks || tasks.size === 0) return true;
+
+  log?.info?.(`[DingTalk] Waiting for ${tasks.size} in-flight message(s) to finish (timeout: ${timeoutMs}ms)`);
+
+  let timer: NodeJS.Timeout | undefined;
+  const deadline = new Promise<false>((resolve) => {
+    timer = setTimeout(() => resolve(false), timeoutMs);
+  });
+  const drained = Promise.allSettled(Array.from(tasks)).then(() => true as const);
+
+  const finished = await Promise.race([drained, deadline]);
+  clearTimeout(timer);
+
+  if (!finished) {
+    log?.warn?.(`[DingTalk] Shutdown deadline reached with ${tasks.size} message(s) still in flight`);
+  }
+  return finished;
+}
+
+// Process all buffered merge entries of an account right away (used on shutdown)
+function flushMergeBuffers(accountId: string, log?: Logger): void {
+  for (const [cacheKey, entry] of messageMergeCache.entries()) {
+    if (entry.accountId !== accountId) continue;
+    clearTimeout(entry.timer);
+    messageMergeCache.delete(cacheKey);
+    log?.info?.(`[DingTalk] Flushing ${entry.messages.length} buffered message(s) for ${cacheKey}`);
+    processMergedMessages(cacheKey, entry, entry.params).catch((err) => {
+      log?.error?.(`[DingTalk] Failed to process flushed messages for ${cacheKey}: ${getErrorMessage(err)}`);
+    });
+  }
+}
+
+/**
+ * Merge buffers of an account: open buffers, messages waiting in them, and merged turns handled so far
+ */
+function getMergeStats(accountId: string): { buffers: number; bufferedMessages: number; mergedTurns: number } {
+  let buffers = 0;
+  let bufferedMessages = 0;
+  for (const entry of messageMergeCache.values()) {
+    if (entry.accountId !== accountId) continue;
+    buffers++;
+    bufferedMessages += entry.messages.length;
+  }
+  return { buffers, bufferedMessages, mergedTurns: mergedTurnCounts.get(accountId) ?? 0 };
+}
+
 // Authorization helpers
 type NormalizedAllowFrom = {
   entries: string[];
@@ -113,6 +239,31 @@ function isSenderAllowed(params: { allow: NormalizedAllowFrom; senderId?: string
   return false;
 }
 
+/**
+ * Check a group message against groupPolicy.
+ * Returns the rejection reason, or null when the message may be processed.
+ */
+function checkGroupAccess(
+  config: DingTalkConfig,
+  conversationId: string,
+  senderId: string
+): 'group' | 'sender' | null {
+  if (config.groupPolicy !== 'allowlist') return null;
+
+  const groupAllow = normalizeAllowFrom(config.groupAllowFrom);
+  // An allowlist policy without entries allows nothing
+  if (!groupAllow.hasWildcard && !groupAllow.entriesLower.includes(conversationId.toLowerCase())) {
+    return 'group';
+  }
+
+  const senderAllowList = config.groupSenderAllowFrom?.[conversationId] ?? config.groupSenderAllowFrom?.['*'];
+  if (senderAllowList && !isSenderAllowed({ allow: normalizeAllowFrom(senderAllowList), senderId })) {
+    return 'sender';
+  }
+
+  return null;
+}
+
 // Clean up old card instances from cache
 function cleanupCardCache() {
   const now = Date.now();
@@ -166,6 +317,42 @@ function detectMarkdownAndExtractTitle(
   return { useMarkdown, title };
 }
 
+// Rewrite markdown into the dialect DingTalk renders; plain text is sent unchanged
+function prepareOutgoingText(config: DingTalkConfig, text: string, useMarkdown: boolean): string {
+  return useMarkdown ? renderDingTalkMarkdown(text, config.markdown) : text;
+}
+
+function getSendQueueOptions(config: DingTalkConfig): SendQueueOptions {
+  return {
+    conversationPerMinute: config.sendRateConversationPerMinute,
+    appPerSecond: config.sendRateAppPerSecond,
+    maxRetries: config.sendMaxRetries,
+  };
+}
+
+// Run an outgoing request through the app's send queue: rate limited, ordered per conversation,
+// and retried when DingTalk throttles it
+function queueSend<T>(
+  config: DingTalkConfig,
+  conversationKey: string,
+  run: () => Promise<T>,
+  log?: Logger
+): Promise<T> {
+  return enqueueSend(config.clientId, conversationKey, run, getSendQueueOptions(config), log);
+}
+
+// Run a card update through the send queue. Updates edit a card instead of posting a message,
+// so they are ordered per card and limited only by the app-wide rate, not the conversation's
+function queueCardUpdate<T>(config: DingTalkConfig, cardId: string, run: () => Promise<T>, log?: Logger): Promise<T> {
+  return enqueueSend(
+    config.clientId,
+    `card:${cardId}`,
+    run,
+    { ...getSendQueueOptions(config), appLimitOnly: true },
+    log
+  );
+}
+
 function getConfig(cfg: OpenClawConfig, accountId?: string): DingTalkConfig {
   const dingtalkCfg = cfg?.channels?.dingtalk;
   if (!dingtalkCfg) return {} as DingTalkConfig;
@@ -177,62 +364,83 @@ function getConfig(cfg: OpenClawConfig, accountId?: string): DingTalkConfig {
   return dingtalkCfg;
 }
 
+/**
+ * Resolve the overrides for a group: the '*' entry merged with the group's own entry
+ */
+function resolveGroupConfig(config: DingTalkConfig, conversationId?: string): DingTalkGroupConfig {
+  const groups = config.groups;
+  if (!groups) return {};
+  return {
+    ...groups['*'],
+    ...(conversationId ? groups[conversationId] : undefined),
+  };
+}
+
+/**
+ * Whether group messages must @mention the robot; group override first, then groupPolicy
+ */
+function resolveGroupRequireMention(config: DingTalkConfig, conversationId?: string): boolean {
+  const groupConfig = resolveGroupConfig(config, conversationId);
+  return groupConfig.requireMention ?? config.groupPolicy !== 'open';
+}
+
 function isConfigured(cfg: OpenClawConfig, accountId?: string): boolean {
   const config = getConfig(cfg, accountId);
   return Boolean(config.clientId && config.clientSecret);
 }
 
-// Get Access Token with retry logic
-async function getAccessToken(config: DingTalkConfig, log?: Logger): Promise<string> {
-  const now = Date.now();
-  if (accessToken && accessTokenExpiry > now + 60000) {
-    log?.debug?.(`[DingTalk] Using cached access token (expires at: ${new Date(accessTokenExpiry).toISOString()})`);
-    return accessToken;
+// oToMessages/batchSend accepts at most this many userIds per call
+const PROACTIVE_USER_BATCH_LIMIT = 20;
+
+// Proactive targets are one group (cid...) or one or more user IDs, as an array or comma-separated.
+// User IDs are split into batches the batch send API accepts.
+function resolveProactiveRecipients(target: string | string[]): { isGroup: boolean; batches: string[][] } {
+  const ids = [
+    ...new Set(
+      ([] as string[])
+        .concat(target)
+        .flatMap((id) => id.split(','))
+        .map((id) => id.trim())
+        .filter(Boolean)
+    ),
+  ];
+  if (ids.length === 0) {
+    throw new Error('[DingTalk] Proactive message requires a target');
   }
 
-  log?.info?.(`[DingTalk] Requesting new access token - clientId: ${config.clientId?.substring(0, 8)}...`);
-  log?.debug?.(`[DingTalk] Access token URL: https://api.dingtalk.com/v1.0/oauth2/accessToken`);
-
-  const token = await retryWithBackoff(
-    async () => {
-      const response = await axios.post<TokenInfo>('https://api.dingtalk.com/v1.0/oauth2/accessToken', {
-        appKey: config.clientId,
-        appSecret: config.clientSecret,
-      });
-
-      log?.debug?.(`[DingTalk] Access token response - expireIn: ${response.data.expireIn} seconds`);
-
-      accessToken = response.data.accessToken;
-      accessTokenExpiry = now + response.data.expireIn * 1000;
-      log?.info?.(`[DingTalk] New access token obtained, expires at: ${new Date(accessTokenExpiry).toISOString()}`);
-
-      return accessToken;
-    },
-    { maxRetries: 3, log }
-  );
+  if (ids[0].startsWith('cid')) {
+    if (ids.length > 1) {
+      throw new Error('[DingTalk] Proactive messages can only be sent to one group conversation at a time');
+    }
+    return { isGroup: true, batches: [ids] };
+  }
 
-  return token;
+  const batches: string[][] = [];
+  for (let i = 0; i < ids.length; i += PROACTIVE_USER_BATCH_LIMIT) {
+    batches.push(ids.slice(i, i + PROACTIVE_USER_BATCH_LIMIT));
+  }
+  return { isGroup: false, batches };
 }
 
 // Send proactive message via DingTalk OpenAPI
 async function sendProactiveMessage(
   config: DingTalkConfig,
-  target: string,
+  target: string | string[],
   text: string,
   log?: Logger
-): Promise<AxiosResponse>;
+): Promise<ProactiveSendResult>;
 async function sendProactiveMessage(
   config: DingTalkConfig,
-  target: string,
+  target: string | string[],
   text: string,
   options?: SendMessageOptions
-): Promise<AxiosResponse>;
+): Promise<ProactiveSendResult>;
 async function sendProactiveMessage(
   config: DingTalkConfig,
-  target: string,
+  target: string | string[],
   text: string,
   optionsOrLog: SendMessageOptions | Logger | undefined = {} as SendMessageOptions
-): Promise<AxiosResponse> {
+): Promise<ProactiveSendResult> {
   // Handle backward compatibility: support both Logger and SendMessageOptions
   let options: SendMessageOptions;
   if (!optionsOrLog) {
@@ -240,16 +448,21 @@ async function sendProactiveMessage(
   } else if (
     typeof optionsOrLog === 'object' &&
     optionsOrLog !== null &&
-    ('log' in optionsOrLog || 'useMarkdown' in optionsOrLog || 'title' in optionsOrLog || 'atUserId' in optionsOrLog)
+    ['log', 'useMarkdown', 'title', 'atUserId', 'atUserIds', 'atMobiles', 'isAtAll', 'skipChunks'].some(
+      (key) => key in optionsOrLog
+    )
   ) {
-    options = optionsOrLog;
+    options = optionsOrLog as SendMessageOptions;
   } else {
     // Assume it's a Logger object
     options = { log: optionsOrLog as Logger };
   }
 
-  const token = await getAccessToken(config, options.log);
-  const isGroup = target.startsWith('cid');
+  // The proactive API has no @mentions; sending without them would silently notify nobody
+  if (options.atUserIds?.length || options.atMobiles?.length || options.isAtAll) {
+    throw new Error('[DingTalk] Proactive messages cannot @mention users (atUserIds, atMobiles, isAtAll)');
+  }
+  const { isGroup, batches } = resolveProactiveRecipients(target);
 
   const url = isGroup
     ? 'https://api.dingtalk.com/v1.0/robot/groupMessages/send'
@@ -263,28 +476,71 @@ async function sendProactiveMessage(
   // sampleMarkdown supports markdown formatting, sampleText for plain text
   const msgKey = useMarkdown ? 'sampleMarkdown' : 'sampleText';
 
-  const payload: ProactiveMessagePayload = {
-    robotCode: config.robotCode || config.clientId,
-    msgKey,
-    msgParam: JSON.stringify({
-      title,
-      text,
-    }),
-  };
+  // Long texts are sent as numbered parts, in order
+  const outgoingText = prepareOutgoingText(config, text, useMarkdown);
+  const allChunks = chunkOutgoingText(outgoingText, config.textChunkLimit || DEFAULT_TEXT_CHUNK_LIMIT);
+  if (allChunks.length > 1) {
+    options.log?.info?.(`[DingTalk] sendProactiveMessage - splitting ${outgoingText.length} chars into ${allChunks.length} parts`);
+  }
+  // Parts the session webhook delivered before it expired are not sent again
+  const chunks = allChunks.slice(options.skipChunks || 0);
+  if (options.skipChunks) {
+    options.log?.info?.(`[DingTalk] sendProactiveMessage - skipping ${options.skipChunks} part(s) already delivered`);
+  }
 
-  if (isGroup) {
-    payload.openConversationId = target;
-  } else {
-    payload.userIds = [target];
+  if (batches.length > 1) {
+    options.log?.info?.(`[DingTalk] sendProactiveMessage - sending to ${batches.length} batches of users`);
   }
 
-  const result = await axios({
-    url,
-    method: 'POST',
-    data: payload,
-    headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
-  });
-  return result.data;
+  let result: AxiosResponse | undefined;
+  // processQueryKey of every part and batch, needed to recall the message later
+  const processQueryKeys: string[] = [];
+  for (const batch of batches) {
+    // A batch is recorded (and queued) as one conversation: a single user, a group, or several users
+    const conversationKey = batch.join(',');
+    for (const chunk of chunks) {
+      const payload: ProactiveMessagePayload = {
+        robotCode: config.robotCode || config.clientId,
+        msgKey,
+        msgParam: JSON.stringify({
+          title,
+          text: chunk,
+        }),
+      };
+
+      if (isGroup) {
+        payload.openConversationId = batch[0];
+      } else {
+        payload.userIds = batch;
+      }
+
+      result = await queueSend<AxiosResponse>(
+        config,
+        conversationKey,
+        () =>
+          withAccessToken(
+            config,
+            (token) =>
+              axios({
+                url,
+                method: 'POST',
+                data: payload,
+                headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
+              }),
+            options.log
+          ),
+        options.log
+      );
+
+      const processQueryKey = result.data?.processQueryKey;
+      if (processQueryKey) {
+        processQueryKeys.push(processQueryKey);
+        recordSentMessage(config.clientId, conversationKey, processQueryKey);
+        trackSentMessage(config, conversationKey, processQueryKey);
+      }
+    }
+  }
+  return { ...result?.data, processQueryKey: processQueryKeys[0], processQueryKeys };
 }
 
 /**
@@ -358,8 +614,6 @@ async function attemptSingleDownload(
   }
 
   try {
-    const token = await getAccessToken(config, log);
-
     // DEBUG: Log request details
     const attemptLabel = isRetry ? '[RETRY]' : '[PRIMARY]';
     log?.info?.(`[DingTalk] [DEBUG] Download media request ${attemptLabel}:`);
@@ -372,12 +626,16 @@ async function attemptSingleDownload(
     );
     log?.info?.(`[DingTalk] [DEBUG] - sessionKey: ${sessionKey}`);
     log?.info?.(`[DingTalk] [DEBUG] - originalFileName: ${originalFileName}`);
-    log?.info?.(`[DingTalk] [DEBUG] - Has access token: ${!!token}`);
 
-    const response = await axios.post<{ downloadUrl?: string }>(
-      'https://api.dingtalk.com/v1.0/robot/messageFiles/download',
-      { downloadCode, robotCode: config.robotCode },
-      { headers: { 'x-acs-dingtalk-access-token': token } }
+    const response = await withAccessToken(
+      config,
+      (token) =>
+        axios.post<{ downloadUrl?: string }>(
+          'https://api.dingtalk.com/v1.0/robot/messageFiles/download',
+          { downloadCode, robotCode: config.robotCode },
+          { headers: { 'x-acs-dingtalk-access-token': token } }
+        ),
+      log
     );
 
     // DEBUG: Log response details
@@ -507,12 +765,40 @@ async function downloadMedia(
   return null;
 }
 
+function getMediaSourceOptions(config: DingTalkConfig): MediaSourceOptions {
+  return { maxBytes: config.mediaMaxBytes, timeoutMs: config.mediaDownloadTimeoutMs };
+}
+
 // Upload media file to DingTalk
+// Accepts local paths, file:// URIs, http(s) URLs and data URIs; remote content is fetched to a temp file first
 async function uploadMedia(
   config: DingTalkConfig,
   mediaPath: string,
   mediaType: string = 'file',
   log?: Logger
+): Promise<MediaUploadResponse | null> {
+  let source: ResolvedMediaSource;
+  try {
+    // 'file' means the type follows the extension, so only the other types are checked against the content
+    const expectedType = ['image', 'voice', 'video'].includes(mediaType) ? (mediaType as OutboundMediaType) : undefined;
+    source = await resolveMediaSource(mediaPath, { ...getMediaSourceOptions(config), mediaType: expectedType }, log);
+  } catch (err) {
+    log?.error?.(`[DingTalk] Failed to fetch media ${mediaPath.slice(0, 100)}: ${getErrorMessage(err)}`);
+    return null;
+  }
+
+  try {
+    return await uploadLocalMedia(config, source.path, mediaType, log);
+  } finally {
+    await releaseMediaSource(source, log);
+  }
+}
+
+async function uploadLocalMedia(
+  config: DingTalkConfig,
+  mediaPath: string,
+  mediaType: string,
+  log?: Logger
 ): Promise<MediaUploadResponse | null> {
   try {
     const fileName = path.basename(mediaPath);
@@ -521,22 +807,7 @@ async function uploadMedia(
     let finalMediaType = mediaType;
 
     if (mediaType === 'file') {
-      const imageExts = ['jpg', 'jpeg', 'png', 'gif', 'bmp'];
-      const voiceExts = ['amr', 'mp3', 'wav'];
-      const videoExts = ['mp4'];
-      const fileExts = ['doc', 'docx', 'xls', 'xlsx', 'ppt', 'pptx', 'zip', 'pdf', 'rar'];
-
-      if (imageExts.includes(fileExt)) {
-        finalMediaType = 'image';
-      } else if (voiceExts.includes(fileExt)) {
-        finalMediaType = 'voice';
-      } else if (videoExts.includes(fileExt)) {
-        finalMediaType = 'video';
-      } else if (fileExts.includes(fileExt)) {
-        finalMediaType = 'file';
-      } else {
-        finalMediaType = 'file';
-      }
+      finalMediaType = resolveMediaType(mediaPath);
     }
 
     log?.debug?.(
@@ -617,6 +888,10 @@ async function uploadMedia(
 
     if (response.data?.errcode) {
       log?.error?.(`[DingTalk] Upload failed with errcode: ${response.data.errcode}, errmsg: ${response.data.errmsg}`);
+      // 40014: 不合法的 access_token, 42001: access_token 超时 - drop it so the next call refreshes
+      if (response.data.errcode === 40014 || response.data.errcode === 42001) {
+        invalidateAccessToken(config, log);
+      }
     } else {
       log?.error?.(`[DingTalk] Upload response missing media_id - data: ${JSON.stringify(response.data)}`);
     }
@@ -639,7 +914,75 @@ async function uploadMedia(
   }
 }
 
+// Upload a media file for sending as a native image, voice or video message.
+// Voice and video need a duration (and video a cover); without them the file is sent as a plain file.
+async function prepareOutboundMedia(config: DingTalkConfig, mediaRef: string, log?: Logger): Promise<OutboundMedia> {
+  const source = await resolveMediaSource(mediaRef, getMediaSourceOptions(config), log);
+  const mediaPath = source.path;
+  const fileName = source.fileName;
+  const fileType = path.basename(mediaPath).split('.').pop()?.toLowerCase() || '';
+  let type = resolveMediaType(mediaPath);
+  let durationMs: number | undefined;
+  let cover: { path: string; temporary: boolean } | null = null;
+
+  if (type === 'voice' || type === 'video') {
+    durationMs = getMediaDurationMs(mediaPath, log);
+    if (!durationMs) {
+      log?.info?.(`[DingTalk] Could not read duration of ${fileName}, sending as file`);
+      type = 'file';
+    }
+  }
+  if (type === 'video') {
+    cover = await resolveVideoCover(mediaPath, log);
+    if (!cover) {
+      log?.info?.(`[DingTalk] No cover image for ${fileName}, sending as file`);
+      type = 'file';
+    }
+  }
+
+  try {
+    // The cover goes first: without it the video is uploaded and sent as a file
+    let coverMediaId: string | undefined;
+    if (cover) {
+      const coverResult = await uploadLocalMedia(config, cover.path, 'image', log);
+      if (coverResult) {
+        coverMediaId = coverResult.mediaId;
+      } else {
+        log?.warn?.(`[DingTalk] Failed to upload cover for ${fileName}, sending as file`);
+        type = 'file';
+      }
+    }
+
+    const uploadResult = await uploadLocalMedia(config, mediaPath, type, log);
+    if (!uploadResult) {
+      throw new Error('[DingTalk] Failed to upload media file');
+    }
+
+    const media: OutboundMedia = { type, mediaId: uploadResult.mediaId, fileName, fileType, durationMs };
+    if (coverMediaId) media.coverMediaId = coverMediaId;
+
+    log?.debug?.(`[DingTalk] Outbound media prepared - type: ${media.type}, mediaId: ${media.mediaId}`);
+    return media;
+  } finally {
+    if (cover?.temporary) {
+      fs.promises.unlink(cover.path).catch(() => {});
+    }
+    await releaseMediaSource(source, log);
+  }
+}
+
 function extractMessageContent(data: DingTalkInboundMessage): MessageContent | RichTextContent {
+  const content = extractMessageBody(data);
+  const quoted = parseQuotedMessage(data);
+  const mentions = parseMentions(data, 'richTextParts' in content ? content.richTextParts : []);
+  return {
+    ...content,
+    ...(quoted ? { quoted } : {}),
+    ...(mentions.length > 0 ? { mentions } : {}),
+  };
+}
+
+function extractMessageBody(data: DingTalkInboundMessage): MessageContent | RichTextContent {
   const msgtype = data.msgtype || 'text';
 
   // 【调试日志】函数入口 - 显示完整输入数据
@@ -832,6 +1175,97 @@ function extractMessageContent(data: DingTalkInboundMessage): MessageContent | R
   return { text: data.text?.content?.trim() || `[${msgtype}消息]`, messageType: msgtype };
 }
 
+// Treat a sessionWebhook as expired this long before its sessionWebhookExpiredTime,
+// so a multi-part reply does not start on a webhook that dies halfway through
+const SESSION_WEBHOOK_EXPIRY_MARGIN_MS = 10000;
+
+const SESSION_WEBHOOK_EXPIRED_MESSAGE = '[DingTalk] Session webhook expired';
+
+function isSessionWebhookExpired(expiredTime?: number): boolean {
+  return !!expiredTime && Date.now() >= expiredTime - SESSION_WEBHOOK_EXPIRY_MARGIN_MS;
+}
+
+// Session webhooks answer with HTTP 200 and an errcode once they are no longer valid
+function checkSessionWebhookResult(data: unknown): void {
+  const { errcode, errmsg } = (data || {}) as { errcode?: number; errmsg?: string };
+  if (errcode && /expire|过期|invalid|不存在|not exist/i.test(String(errmsg || ''))) {
+    throw new Error(`${SESSION_WEBHOOK_EXPIRED_MESSAGE}: ${errcode} ${errmsg}`);
+  }
+}
+
+function isSessionWebhookExpiredError(err: unknown): boolean {
+  const status = axios.isAxiosError(err) ? err.response?.status : undefined;
+  return (
+    getErrorMessage(err).startsWith(SESSION_WEBHOOK_EXPIRED_MESSAGE) ||
+    status === 403 ||
+    status === 404 ||
+    status === 410
+  );
+}
+
+// Reply through the sessionWebhook, switching to the proactive API for the same conversation
+// when the webhook is expired. Proactive messages cannot @mention, so mentions are dropped then.
+async function sendReply(
+  config: DingTalkConfig,
+  target: ReplyTarget,
+  text: string,
+  options: SendMessageOptions & { mediaPath?: string; richMessage?: RichMessage } = {}
+): Promise<unknown> {
+  const { mediaPath, richMessage, ...sendOptions } = options;
+  // Parts of a multi-part text the webhook delivered, so a fallback sends only the rest
+  let deliveredChunks = 0;
+
+  if (target.sessionWebhook && !isSessionWebhookExpired(target.sessionWebhookExpiredTime)) {
+    try {
+      const sessionOptions = {
+        ...sendOptions,
+        conversationId: target.conversationId,
+        onChunkSent: () => {
+          deliveredChunks++;
+        },
+      };
+      if (richMessage) {
+        return await sendRichMessageBySession(config, target.sessionWebhook, richMessage, sessionOptions);
+      }
+      return mediaPath
+        ? await sendBySession(config, target.sessionWebhook, text, mediaPath, sessionOptions)
+        : await sendBySession(config, target.sessionWebhook, text, sessionOptions);
+    } catch (err) {
+      if (!isSessionWebhookExpiredError(err)) throw err;
+      options.log?.warn?.(
+        `[DingTalk] Session webhook rejected (${getErrorMessage(err)}), falling back to proactive API`
+      );
+    }
+  } else {
+    options.log?.info?.(
+      `[DingTalk] Session webhook ${target.sessionWebhook ? 'expired' : 'missing'}, sending to ${target.conversationId} via proactive API`
+    );
+  }
+
+  if (richMessage) {
+    return sendRichMessage(config, target.conversationId, richMessage, options.log);
+  }
+  if (mediaPath) {
+    return sendFileMessage(config, target.conversationId, mediaPath, options.log);
+  }
+  return sendProactiveMessage(config, target.conversationId, text, {
+    ...sendOptions,
+    skipChunks: deliveredChunks,
+    atUserId: null,
+    atUserIds: undefined,
+    atMobiles: undefined,
+    isAtAll: undefined,
+  });
+}
+
+// @mentions of a session webhook body; null when nobody is mentioned
+function buildAtMentions(options: SendMessageOptions): WebhookAtMentions | null {
+  const atUserIds = [...new Set([options.atUserId, ...(options.atUserIds || [])].filter((id): id is string => !!id))];
+  const atMobiles = [...new Set(options.atMobiles || [])];
+  if (!options.isAtAll && atUserIds.length === 0 && atMobiles.length === 0) return null;
+  return { atUserIds, atMobiles, isAtAll: !!options.isAtAll };
+}
+
 // Send message via sessionWebhook
 async function sendBySession(
   config: DingTalkConfig,
@@ -888,41 +1322,35 @@ async function sendBySession(
   }
 
   if (mediaPath) {
-    options.log?.info?.(`[DingTalk] sendBySession - Sending file via session webhook`);
+    options.log?.info?.(`[DingTalk] sendBySession - Sending media via session webhook`);
     options.log?.debug?.(`[DingTalk] sendBySession - mediaPath: ${mediaPath}, sessionWebhook: ${sessionWebhook}`);
 
-    const uploadResult = await uploadMedia(config, mediaPath, 'file', options.log);
-    if (!uploadResult) {
-      options.log?.error?.(`[DingTalk] sendBySession - Failed to upload media file`);
-      throw new Error('[DingTalk] Failed to upload media file');
-    }
-
-    options.log?.info?.(`[DingTalk] sendBySession - File uploaded successfully, mediaId: ${uploadResult.mediaId}`);
+    const media = await prepareOutboundMedia(config, mediaPath, options.log);
+    options.log?.info?.(
+      `[DingTalk] sendBySession - Media uploaded successfully, type: ${media.type}, mediaId: ${media.mediaId}`
+    );
 
-    const fileName = path.basename(mediaPath);
-    const fileExt = fileName.split('.').pop()?.toLowerCase() || '';
-    options.log?.debug?.(`[DingTalk] sendBySession - fileName: ${fileName}, fileExt: ${fileExt}`);
-
-    const body: FileMessageWebhookResponse = {
-      msgtype: 'file',
-      file: {
-        fileName,
-        mediaId: uploadResult.mediaId,
-        fileType: fileExt,
-      },
-    };
-    if (options.atUserId) body.at = { atUserIds: [options.atUserId], isAtAll: false };
+    const body = buildWebhookMediaMessage(media);
+    const at = buildAtMentions(options);
+    if (at) body.at = at;
 
     options.log?.debug?.(`[DingTalk] sendBySession - Request body: ${JSON.stringify(body)}`);
 
-    const result = await axios({
-      url: sessionWebhook,
-      method: 'POST',
-      data: body,
-      headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
-    });
+    const result = await queueSend(
+      config,
+      options.conversationId || sessionWebhook,
+      () =>
+        axios({
+          url: sessionWebhook,
+          method: 'POST',
+          data: body,
+          headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
+        }),
+      options.log
+    );
 
-    options.log?.info?.(`[DingTalk] sendBySession - File message sent via session webhook`);
+    checkSessionWebhookResult(result.data);
+    options.log?.info?.(`[DingTalk] sendBySession - ${media.type} message sent via session webhook`);
     options.log?.debug?.(`[DingTalk] sendBySession - Response: ${JSON.stringify(result.data)}`);
 
     return result.data;
@@ -934,133 +1362,402 @@ async function sendBySession(
   const { useMarkdown, title } = detectMarkdownAndExtractTitle(text, options, 'Clawdbot 消息');
   options.log?.debug?.(`[DingTalk] sendBySession - useMarkdown: ${useMarkdown}, title: ${title}`);
 
-  let body: SessionWebhookResponse;
-  if (useMarkdown) {
-    let finalText = text;
-    if (options.atUserId) finalText = `${finalText} @${options.atUserId}`;
-    body = { msgtype: 'markdown', markdown: { title, text: finalText } };
-  } else {
-    body = { msgtype: 'text', text: { content: text } };
+  // Long texts are sent as numbered parts, in order; only the first part @mentions anyone
+  const outgoingText = prepareOutgoingText(config, text, useMarkdown);
+  const chunks = chunkOutgoingText(outgoingText, config.textChunkLimit || DEFAULT_TEXT_CHUNK_LIMIT);
+  if (chunks.length > 1) {
+    options.log?.info?.(`[DingTalk] sendBySession - splitting ${outgoingText.length} chars into ${chunks.length} parts`);
   }
 
-  if (options.atUserId) body.at = { atUserIds: [options.atUserId], isAtAll: false };
+  const mentions = buildAtMentions(options);
+  let result: AxiosResponse | undefined;
+  for (let i = 0; i < chunks.length; i++) {
+    const chunk = chunks[i];
+    const at = i === 0 ? mentions : null;
+
+    let body: SessionWebhookResponse;
+    if (useMarkdown) {
+      // Markdown only highlights mentions that also appear in the text
+      let finalText = chunk;
+      if (at) {
+        const names = [...at.atUserIds, ...(at.atMobiles || [])];
+        if (names.length > 0) finalText = `${finalText} ${names.map((name) => `@${name}`).join(' ')}`;
+      }
+      body = { msgtype: 'markdown', markdown: { title, text: finalText } };
+    } else {
+      body = { msgtype: 'text', text: { content: chunk } };
+    }
 
-  options.log?.debug?.(`[DingTalk] sendBySession - Request body: ${JSON.stringify(body)}`);
+    if (at) body.at = at;
 
-  const result = await axios({
-    url: sessionWebhook,
-    method: 'POST',
-    data: body,
-    headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
-  });
+    options.log?.debug?.(`[DingTalk] sendBySession - Request body: ${JSON.stringify(body)}`);
+
+    result = await queueSend<AxiosResponse>(
+      config,
+      options.conversationId || sessionWebhook,
+      () =>
+        axios({
+          url: sessionWebhook,
+          method: 'POST',
+          data: body,
+          headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
+        }),
+      options.log
+    );
+    checkSessionWebhookResult(result.data);
+    options.onChunkSent?.();
+  }
 
   options.log?.info?.(`[DingTalk] sendBySession - Message sent successfully`);
-  options.log?.debug?.(`[DingTalk] sendBySession - Response: ${JSON.stringify(result.data)}`);
+  options.log?.debug?.(`[DingTalk] sendBySession - Response: ${JSON.stringify(result?.data)}`);
 
-  return result.data;
+  return result?.data;
 }
 
-// Send file message via proactive API
+// Send a media file via proactive API, as a native image/voice/video message when possible.
+// The file is uploaded once and sent to every batch of users.
 async function sendFileMessage(
   config: DingTalkConfig,
-  target: string,
+  target: string | string[],
   mediaPath: string,
   log?: Logger
-): Promise<AxiosResponse> {
-  log?.info?.(`[DingTalk] sendFileMessage called - target: ${target}, mediaPath: ${mediaPath}`);
+): Promise<ProactiveSendResult> {
+  log?.info?.(`[DingTalk] sendFileMessage called - target: ${String(target)}, mediaPath: ${mediaPath}`);
   log?.debug?.(`[DingTalk] sendFileMessage config - robotCode: ${config.robotCode}, clientId: ${config.clientId}`);
 
-  log?.info?.(`[DingTalk] Step 1: Uploading media file...`);
-  const uploadResult = await uploadMedia(config, mediaPath, 'file', log);
+  const { isGroup, batches } = resolveProactiveRecipients(target);
 
-  if (!uploadResult) {
-    log?.error?.(`[DingTalk] sendFileMessage failed - upload returned null`);
-    throw new Error('[DingTalk] Failed to upload media file');
+  log?.info?.(`[DingTalk] Step 1: Uploading media file...`);
+  let media: OutboundMedia;
+  try {
+    media = await prepareOutboundMedia(config, mediaPath, log);
+  } catch (err) {
+    log?.error?.(`[DingTalk] sendFileMessage failed - ${getErrorMessage(err)}`);
+    throw err;
   }
-  log?.info?.(`[DingTalk] Step 1: Upload successful - mediaId: ${uploadResult.mediaId}`);
+  log?.info?.(`[DingTalk] Step 1: Upload successful - type: ${media.type}, mediaId: ${media.mediaId}`);
 
-  const token = await getAccessToken(config, log);
-  const isGroup = target.startsWith('cid');
-  log?.info?.(`[DingTalk] Step 2: Determining target type - isGroup: ${isGroup}`);
-
-  const fileName = path.basename(mediaPath);
-  const fileExt = fileName.split('.').pop()?.toLowerCase() || '';
-  log?.debug?.(`[DingTalk] File name extracted: ${fileName}, extension: ${fileExt}`);
+  log?.info?.(`[DingTalk] Step 2: Determining target type - isGroup: ${isGroup}, batches: ${batches.length}`);
 
   const url = isGroup
     ? 'https://api.dingtalk.com/v1.0/robot/groupMessages/send'
     : 'https://api.dingtalk.com/v1.0/robot/oToMessages/batchSend';
   log?.debug?.(`[DingTalk] API URL selected: ${url}`);
 
-  const payload: ProactiveMessagePayload = {
-    robotCode: config.robotCode || config.clientId,
-    msgKey: 'sampleFile',
-    msgParam: JSON.stringify({
-      fileName,
-      mediaId: uploadResult.mediaId,
-      fileType: fileExt,
-    }),
-  };
+  let result: AxiosResponse | undefined;
+  const processQueryKeys: string[] = [];
+  for (const batch of batches) {
+    const conversationKey = batch.join(',');
+    const payload: ProactiveMessagePayload = {
+      robotCode: config.robotCode || config.clientId,
+      ...buildProactiveMediaMessage(media),
+    };
 
-  if (isGroup) {
-    (payload as any).openConversationId = target;
-  } else {
-    (payload as any).userIds = [target];
-  }
-
-  log?.debug?.(
-    `[DingTalk] Request payload: ${JSON.stringify({
-      robotCode: payload.robotCode,
-      msgKey: payload.msgKey,
-      msgParam: payload.msgParam,
-      ...(isGroup
-        ? { openConversationId: (payload as any).openConversationId }
-        : { userIds: (payload as any).userIds }),
-    })}`
-  );
-  log?.info?.(`[DingTalk] Step 3: Sending file message to DingTalk API...`);
+    if (isGroup) {
+      payload.openConversationId = batch[0];
+    } else {
+      payload.userIds = batch;
+    }
 
-  const result = await axios({
-    url,
-    method: 'POST',
-    data: payload,
-    headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
-  });
+    log?.debug?.(`[DingTalk] Request payload: ${JSON.stringify(payload)}`);
+    log?.info?.(`[DingTalk] Step 3: Sending ${media.type} message to DingTalk API...`);
+
+    result = await queueSend<AxiosResponse>(
+      config,
+      conversationKey,
+      () =>
+        withAccessToken(
+          config,
+          (token) =>
+            axios({
+              url,
+              method: 'POST',
+              data: payload,
+              headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
+            }),
+          log
+        ),
+      log
+    );
 
-  log?.info?.(`[DingTalk] Step 3: File message sent successfully`);
-  log?.debug?.(`[DingTalk] API response - status: ${result.status}, data: ${JSON.stringify(result.data)}`);
+    const processQueryKey = result.data?.processQueryKey;
+    if (processQueryKey) {
+      processQueryKeys.push(processQueryKey);
+      recordSentMessage(config.clientId, conversationKey, processQueryKey);
+      trackSentMessage(config, conversationKey, processQueryKey);
+    }
+    log?.info?.(`[DingTalk] Step 3: ${media.type} message sent successfully`);
+    log?.debug?.(`[DingTalk] API response - status: ${result.status}, data: ${JSON.stringify(result.data)}`);
+  }
 
-  return result.data;
+  return { ...result?.data, processQueryKey: processQueryKeys[0], processQueryKeys };
 }
 
-// Send interactive card (for initial card creation)
-async function sendInteractiveCard(
+// Markdown rendering applies to the text of action cards, like any other markdown message
+function prepareRichMessage(config: DingTalkConfig, message: RichMessage): RichMessage {
+  if (message.type !== 'actionCard') return message;
+  return { ...message, text: prepareOutgoingText(config, message.text, true) };
+}
+
+// Send an actionCard / link / feedCard message via proactive API
+async function sendRichMessage(
   config: DingTalkConfig,
-  conversationId: string,
-  text: string,
-  options: SendMessageOptions = {}
-): Promise<{ cardBizId: string; response: any }> {
-  // Validate robotCode is configured
-  const robotCode = config.robotCode || config.clientId;
-  if (!robotCode) {
-    throw new Error('[DingTalk] robotCode or clientId is required for sending interactive cards');
+  target: string | string[],
+  message: RichMessage,
+  log?: Logger
+): Promise<ProactiveSendResult> {
+  const { isGroup, batches } = resolveProactiveRecipients(target);
+  const url = isGroup
+    ? 'https://api.dingtalk.com/v1.0/robot/groupMessages/send'
+    : 'https://api.dingtalk.com/v1.0/robot/oToMessages/batchSend';
+  const { msgKey, msgParam } = buildProactiveRichMessage(prepareRichMessage(config, message));
+  log?.info?.(`[DingTalk] Sending ${message.type} message as ${msgKey} to ${batches.length} batch(es)`);
+  if (message.type === 'actionCard' && message.buttonOrientation === 'horizontal' && message.buttons.length > 2) {
+    log?.info?.(`[DingTalk] Proactive action cards lay out at most 2 buttons horizontally, sending them vertically`);
   }
 
-  const token = await getAccessToken(config, options.log);
-  const isGroup = conversationId.startsWith('cid');
+  let result: AxiosResponse | undefined;
+  const processQueryKeys: string[] = [];
+  for (const batch of batches) {
+    const conversationKey = batch.join(',');
+    const payload: ProactiveMessagePayload = { robotCode: config.robotCode || config.clientId, msgKey, msgParam };
+    if (isGroup) {
+      payload.openConversationId = batch[0];
+    } else {
+      payload.userIds = batch;
+    }
 
-  // Generate unique card business ID using crypto.randomUUID
-  const cardBizId = `card_${randomUUID()}`;
+    result = await queueSend<AxiosResponse>(
+      config,
+      conversationKey,
+      () =>
+        withAccessToken(
+          config,
+          (token) =>
+            axios({
+              url,
+              method: 'POST',
+              data: payload,
+              headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
+            }),
+          log
+        ),
+      log
+    );
 
-  // Extract title and detect markdown
-  const { useMarkdown, title } = detectMarkdownAndExtractTitle(text, options, 'Clawdbot 消息');
+    const processQueryKey = result.data?.processQueryKey;
+    if (processQueryKey) {
+      processQueryKeys.push(processQueryKey);
+      recordSentMessage(config.clientId, conversationKey, processQueryKey);
+      trackSentMessage(config, conversationKey, processQueryKey);
+    }
+  }
 
-  // Build card data structure with markdown support
-  const cardData: InteractiveCardData = {
-    config: {
-      autoLayout: true,
-      enableForward: true,
-    },
+  return { ...result?.data, processQueryKey: processQueryKeys[0], processQueryKeys };
+}
+
+// Send an actionCard / link / feedCard message via sessionWebhook
+async function sendRichMessageBySession(
+  config: DingTalkConfig,
+  sessionWebhook: string,
+  message: RichMessage,
+  options: SendMessageOptions = {}
+): Promise<unknown> {
+  const body = buildWebhookRichMessage(prepareRichMessage(config, message));
+  options.log?.debug?.(`[DingTalk] sendRichMessageBySession - Request body: ${JSON.stringify(body)}`);
+
+  const token = await getAccessToken(config, options.log);
+  const result = await queueSend<AxiosResponse>(
+    config,
+    options.conversationId || sessionWebhook,
+    () =>
+      axios({
+        url: sessionWebhook,
+        method: 'POST',
+        data: body,
+        headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
+      }),
+    options.log
+  );
+  checkSessionWebhookResult(result.data);
+  options.log?.info?.(`[DingTalk] sendRichMessageBySession - ${message.type} message sent via session webhook`);
+  return result.data;
+}
+
+// Recall (撤回) robot messages sent via the proactive API.
+// Without processQueryKeys the last recorded message sent to the target is recalled.
+async function recallMessage(
+  config: DingTalkConfig,
+  target: string,
+  processQueryKeys?: string | string[],
+  log?: Logger
+): Promise<RecallMessageResult> {
+  let keys = typeof processQueryKeys === 'string' ? [processQueryKeys] : processQueryKeys || [];
+  if (keys.length === 0) {
+    const last = getSentMessages(config.clientId, target).pop();
+    if (!last) {
+      throw new Error(`[DingTalk] No recallable message recorded for ${target}`);
+    }
+    keys = [last.processQueryKey];
+  }
+
+  const isGroup = target.startsWith('cid');
+  const robotCode = config.robotCode || config.clientId;
+  const url = isGroup
+    ? 'https://api.dingtalk.com/v1.0/robot/groupMessages/recall'
+    : 'https://api.dingtalk.com/v1.0/robot/otoMessages/batchRecall';
+  const payload = isGroup
+    ? { openConversationId: target, robotCode, processQueryKeys: keys }
+    : { robotCode, processQueryKeys: keys };
+
+  log?.info?.(`[DingTalk] Recalling ${keys.length} message(s) in ${target}`);
+
+  const result = await queueSend(
+    config,
+    target,
+    () =>
+      withAccessToken(
+        config,
+        (token) =>
+          axios.post<{ successResult?: string[]; failedResult?: Record<string, string> }>(url, payload, {
+            headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
+          }),
+        log
+      ),
+    log
+  );
+
+  const recalled = result.data?.successResult || [];
+  const failed = result.data?.failedResult || {};
+  forgetSentMessages(config.clientId, target, recalled);
+  untrackReadStatus(config.clientId, recalled);
+
+  if (Object.keys(failed).length > 0) {
+    log?.warn?.(`[DingTalk] Some messages could not be recalled: ${JSON.stringify(failed)}`);
+  }
+  return { recalled, failed };
+}
+
+// Register a sent message with the read status poller, when polling is enabled
+function trackSentMessage(config: DingTalkConfig, target: string, processQueryKey: string | undefined): void {
+  if (!processQueryKey || !config.readStatusPollIntervalMs) return;
+  trackReadStatus(config.clientId, target, processQueryKey);
+}
+
+// Query who has read a robot message sent via the proactive API.
+// 1:1 messages report read and unread recipients; group messages only report readers.
+async function queryMessageReadStatus(
+  config: DingTalkConfig,
+  target: string,
+  processQueryKey: string,
+  log?: Logger
+): Promise<MessageReadStatus> {
+  const robotCode = config.robotCode || config.clientId;
+
+  if (!target.startsWith('cid')) {
+    const result = await withAccessToken(
+      config,
+      (token) =>
+        axios.get<{
+          sendStatus?: string;
+          messageReadInfoList?: Array<{ name?: string; userId: string; readStatus?: string; readTimestamp?: number }>;
+        }>('https://api.dingtalk.com/v1.0/robot/oToMessages/readStatus', {
+          params: { robotCode, processQueryKey },
+          headers: { 'x-acs-dingtalk-access-token': token },
+        }),
+      log
+    );
+
+    const read: MessageReader[] = [];
+    const unread: MessageReader[] = [];
+    for (const info of result.data?.messageReadInfoList || []) {
+      const reader: MessageReader = { userId: info.userId, name: info.name };
+      if (info.readStatus === 'READ') {
+        if (info.readTimestamp) reader.readAt = info.readTimestamp;
+        read.push(reader);
+      } else {
+        unread.push(reader);
+      }
+    }
+    return { processQueryKey, sendStatus: result.data?.sendStatus, read, unread, unreadKnown: true };
+  }
+
+  // Group readers are paged
+  const read: MessageReader[] = [];
+  let nextToken: string | undefined;
+  do {
+    const result = await withAccessToken(
+      config,
+      (token) =>
+        axios.post<{ readUserIds?: string[]; nextToken?: string }>(
+          'https://api.dingtalk.com/v1.0/robot/groupMessages/query',
+          { openConversationId: target, robotCode, processQueryKey, maxResults: 100, nextToken },
+          { headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' } }
+        ),
+      log
+    );
+    for (const userId of result.data?.readUserIds || []) read.push({ userId });
+    nextToken = result.data?.nextToken || undefined;
+  } while (nextToken);
+
+  return { processQueryKey, read, unread: [], unreadKnown: false };
+}
+
+// Send interactive card (for initial card creation)
+// Text over the size limit is split: the first part goes in this card, the rest in continuation cards
+async function sendInteractiveCard(
+  config: DingTalkConfig,
+  conversationId: string,
+  text: string,
+  options: SendMessageOptions = {}
+): Promise<{ cardBizId: string; response: any }> {
+  const { useMarkdown, title } = detectMarkdownAndExtractTitle(text, options, 'Clawdbot 消息');
+  const outgoingText = prepareOutgoingText(config, text, useMarkdown);
+  const chunks = chunkOutgoingText(outgoingText, config.textChunkLimit || DEFAULT_TEXT_CHUNK_LIMIT);
+  // Title comes from the original text, before the markdown is rewritten
+  const chunkOptions = { ...options, title };
+
+  const result = await sendSingleInteractiveCard(config, conversationId, chunks[0], chunkOptions);
+
+  if (chunks.length > 1) {
+    options.log?.info?.(`[DingTalk] Card text split into ${chunks.length} parts, sending continuation cards`);
+    const instance = cardInstances.get(result.cardBizId);
+    for (const chunk of chunks.slice(1)) {
+      const continuation = await sendSingleInteractiveCard(config, conversationId, chunk, chunkOptions);
+      instance?.continuationCardBizIds?.push(continuation.cardBizId);
+    }
+  }
+
+  return result;
+}
+
+// Create a single interactive card
+async function sendSingleInteractiveCard(
+  config: DingTalkConfig,
+  conversationId: string,
+  text: string,
+  options: SendMessageOptions = {}
+): Promise<{ cardBizId: string; response: any }> {
+  // Validate robotCode is configured
+  const robotCode = config.robotCode || config.clientId;
+  if (!robotCode) {
+    throw new Error('[DingTalk] robotCode or clientId is required for sending interactive cards');
+  }
+
+  const isGroup = conversationId.startsWith('cid');
+
+  // Generate unique card business ID using crypto.randomUUID
+  const cardBizId = `card_${randomUUID()}`;
+
+  // Extract title and detect markdown
+  const { useMarkdown, title } = detectMarkdownAndExtractTitle(text, options, 'Clawdbot 消息');
+
+  // Build card data structure with markdown support
+  const cardData: InteractiveCardData = {
+    config: {
+      autoLayout: true,
+      enableForward: true,
+    },
     header: {
       title: {
         type: 'text',
@@ -1088,20 +1785,34 @@ async function sendInteractiveCard(
   } else {
     payload.singleChatReceiver = JSON.stringify({ userId: conversationId });
   }
+  if (config.cardCallbackRouteKey) {
+    payload.callbackRouteKey = config.cardCallbackRouteKey;
+  }
 
   // Use configurable API URL with retry logic
   const apiUrl = config.cardSendApiUrl || 'https://api.dingtalk.com/v1.0/im/v1.0/robot/interactiveCards/send';
 
-  const result = await retryWithBackoff(
-    async () => {
-      return await axios({
-        url: apiUrl,
-        method: 'POST',
-        data: payload,
-        headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
-      });
-    },
-    { maxRetries: 3, log: options.log }
+  const result = await queueSend(
+    config,
+    conversationId,
+    () =>
+      retryWithBackoff(
+        async () => {
+          return await withAccessToken(
+            config,
+            (token) =>
+              axios({
+                url: apiUrl,
+                method: 'POST',
+                data: payload,
+                headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
+              }),
+            options.log
+          );
+        },
+        { maxRetries: 3, log: options.log }
+      ),
+    options.log
   );
 
   // Cache card instance for future updates
@@ -1110,20 +1821,60 @@ async function sendInteractiveCard(
     conversationId,
     createdAt: Date.now(),
     lastUpdated: Date.now(),
+    continuationCardBizIds: [],
+    title,
+    text,
   });
 
   return { cardBizId, response: result.data };
 }
 
 // Update existing interactive card (for streaming updates)
+// When the text outgrows the size limit, overflow goes to continuation cards, created on demand
 async function updateInteractiveCard(
   config: DingTalkConfig,
   cardBizId: string,
   text: string,
   options: SendMessageOptions = {}
 ): Promise<any> {
-  const token = await getAccessToken(config, options.log);
+  const { useMarkdown, title } = detectMarkdownAndExtractTitle(text, options, 'Clawdbot 消息');
+  const outgoingText = prepareOutgoingText(config, text, useMarkdown);
+  const chunks = chunkOutgoingText(outgoingText, config.textChunkLimit || DEFAULT_TEXT_CHUNK_LIMIT);
+  // Title comes from the original text, before the markdown is rewritten
+  const chunkOptions = { ...options, title };
+  if (chunks.length === 1) {
+    return updateSingleInteractiveCard(config, cardBizId, outgoingText, chunkOptions);
+  }
+
+  const result = await updateSingleInteractiveCard(config, cardBizId, chunks[0], chunkOptions);
 
+  const instance = cardInstances.get(cardBizId);
+  if (!instance) {
+    options.log?.warn?.(`[DingTalk] Card ${cardBizId} not cached, cannot add continuation cards for overflow text`);
+    return result;
+  }
+
+  const continuationIds = (instance.continuationCardBizIds ??= []);
+  for (let i = 1; i < chunks.length; i++) {
+    const continuationId = continuationIds[i - 1];
+    if (continuationId) {
+      await updateSingleInteractiveCard(config, continuationId, chunks[i], chunkOptions);
+    } else {
+      const continuation = await sendSingleInteractiveCard(config, instance.conversationId, chunks[i], chunkOptions);
+      continuationIds.push(continuation.cardBizId);
+    }
+  }
+
+  return result;
+}
+
+// Update a single interactive card
+async function updateSingleInteractiveCard(
+  config: DingTalkConfig,
+  cardBizId: string,
+  text: string,
+  options: SendMessageOptions = {}
+): Promise<any> {
   // Extract title and detect markdown
   const { useMarkdown, title } = detectMarkdownAndExtractTitle(text, options, 'Clawdbot 消息');
 
@@ -1160,22 +1911,35 @@ async function updateInteractiveCard(
   const apiUrl = config.cardUpdateApiUrl || 'https://api.dingtalk.com/v1.0/im/robots/interactiveCards';
 
   try {
-    const result = await retryWithBackoff(
-      async () => {
-        return await axios({
-          url: apiUrl,
-          method: 'PUT',
-          data: payload,
-          headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
-        });
-      },
-      { maxRetries: 3, log: options.log }
+    const result = await queueCardUpdate(
+      config,
+      cardBizId,
+      () =>
+        retryWithBackoff(
+          async () => {
+            return await withAccessToken(
+              config,
+              (token) =>
+                axios({
+                  url: apiUrl,
+                  method: 'PUT',
+                  data: payload,
+                  headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
+                }),
+              options.log
+            );
+          },
+          { maxRetries: 3, log: options.log }
+        ),
+      options.log
     );
 
     // Update cache on success
     const instance = cardInstances.get(cardBizId);
     if (instance) {
       instance.lastUpdated = Date.now();
+      instance.title = title;
+      instance.text = text;
     }
 
     return result.data;
@@ -1190,6 +1954,67 @@ async function updateInteractiveCard(
   }
 }
 
+// Acknowledge a card action by appending cardCallbackAckText to the card it came from
+async function acknowledgeCardAction(config: DingTalkConfig, action: CardActionPayload, log?: Logger): Promise<void> {
+  if (!config.cardCallbackAckText) return;
+  const instance = cardInstances.get(action.cardBizId);
+  if (!instance?.text) {
+    log?.debug?.(`[DingTalk] Card ${action.cardBizId} not cached, skipping acknowledgement update`);
+    return;
+  }
+  const ackText = formatCardAckText(config.cardCallbackAckText, action);
+  await updateSingleInteractiveCard(config, action.cardBizId, `${instance.text}\n\n---\n\n${ackText}`, {
+    title: instance.title,
+    useMarkdown: true,
+    log,
+  });
+}
+
+// Move a reply card to a lifecycle state and re-render it from the answer so far.
+// Completed and failed are final: progress updates arriving afterwards are ignored.
+async function updateCardState(
+  config: DingTalkConfig,
+  cardBizId: string,
+  state: CardState,
+  view: { text?: string; error?: string } = {},
+  log?: Logger
+): Promise<void> {
+  const instance = cardInstances.get(cardBizId);
+  if (instance?.state === 'completed' || instance?.state === 'failed') return;
+  if (instance) {
+    instance.state = state;
+    if (view.error) instance.error = view.error;
+  }
+
+  const text = renderCardStateText({ state, text: view.text, steps: instance?.steps, error: view.error });
+  // Status lines are not a good card title; take it from the answer instead
+  const { title } = detectMarkdownAndExtractTitle(view.text || '', {}, 'Clawdbot 消息');
+  await updateInteractiveCard(config, cardBizId, text, { title, useMarkdown: true, log });
+}
+
+// Show a tool call / step on an in-progress card; re-rendered at most every CARD_UPDATE_MIN_INTERVAL
+async function trackCardStep(
+  config: DingTalkConfig,
+  cardBizId: string,
+  event: CardStepEvent,
+  answerText: string,
+  log?: Logger
+): Promise<void> {
+  const instance = cardInstances.get(cardBizId);
+  if (!instance || instance.state === 'completed' || instance.state === 'failed') return;
+
+  const steps = (instance.steps ??= []);
+  if (!applyCardStepEvent(steps, event)) return;
+  // Skipped renders are not lost: the step list is shown by the next update
+  if (instance.state === 'in-progress' && Date.now() - instance.lastUpdated < CARD_UPDATE_MIN_INTERVAL) return;
+
+  try {
+    await updateCardState(config, cardBizId, 'in-progress', { text: answerText }, log);
+  } catch (err) {
+    log?.debug?.(`[DingTalk] Card progress update failed: ${getErrorMessage(err)}`);
+  }
+}
+
 // Throttled card update wrapper with timeout mechanism
 async function updateInteractiveCardThrottled(
   config: DingTalkConfig,
@@ -1247,12 +2072,229 @@ async function updateInteractiveCardThrottled(
   }
 }
 
-// Send message with automatic mode selection (text/markdown/card)
+// AI card flowStatus values understood by streaming-capable card templates
+const AI_CARD_STATUS = {
+  PROCESSING: '1',
+  INPUTING: '2',
+  FINISHED: '3',
+  FAILED: '5',
+} as const;
+
+// Update the data of an AI card instance (status and content variables)
+async function updateAICardData(
+  config: DingTalkConfig,
+  card: AICardInstance,
+  cardParamMap: Record<string, string>,
+  log?: Logger
+): Promise<void> {
+  await queueCardUpdate(
+    config,
+    card.outTrackId,
+    () =>
+      withAccessToken(
+        config,
+        (token) =>
+          axios.put(
+            'https://api.dingtalk.com/v1.0/card/instances',
+            { outTrackId: card.outTrackId, cardData: { cardParamMap }, cardUpdateOptions: { updateCardDataByKey: true } },
+            { headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' } }
+          ),
+        log
+      ),
+    log
+  );
+}
+
+// Create an AI card instance from aiCardTemplateId and deliver it to the conversation, in the processing state
+async function createAICard(config: DingTalkConfig, conversationId: string, log?: Logger): Promise<AICardInstance> {
+  if (!config.aiCardTemplateId) {
+    throw new Error('[DingTalk] aiCardTemplateId is required for messageType aicard');
+  }
+  const robotCode = config.robotCode || config.clientId;
+  const isGroup = conversationId.startsWith('cid');
+  const outTrackId = `aicard_${randomUUID()}`;
+  const contentKey = config.aiCardContentKey || 'msgContent';
+
+  const body = {
+    cardTemplateId: config.aiCardTemplateId,
+    outTrackId,
+    cardData: { cardParamMap: { flowStatus: AI_CARD_STATUS.PROCESSING, [contentKey]: '' } },
+    // Button presses on the card come back over the stream connection (TOPIC_CARD)
+    callbackType: 'STREAM',
+    openSpaceId: isGroup ? `dtv1.card//IM_GROUP.${conversationId}` : `dtv1.card//IM_ROBOT.${conversationId}`,
+    userIdType: 1,
+    ...(isGroup
+      ? { imGroupOpenSpaceModel: { supportForward: true }, imGroupOpenDeliverModel: { robotCode } }
+      : { imRobotOpenSpaceModel: { supportForward: true }, imRobotOpenDeliverModel: { spaceType: 'IM_ROBOT' } }),
+  };
+
+  await queueSend(
+    config,
+    conversationId,
+    () =>
+      withAccessToken(
+        config,
+        (token) =>
+          axios.post('https://api.dingtalk.com/v1.0/card/instances/createAndDeliver', body, {
+            headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' },
+          }),
+        log
+      ),
+    log
+  );
+
+  // Known to card callbacks like interactive cards
+  cardInstances.set(outTrackId, {
+    cardBizId: outTrackId,
+    conversationId,
+    createdAt: Date.now(),
+    lastUpdated: Date.now(),
+  });
+  log?.info?.(`[DingTalk] AI card created - outTrackId: ${outTrackId}`);
+
+  return {
+    outTrackId,
+    conversationId,
+    contentKey,
+    inputing: false,
+    lastStreamedAt: 0,
+    pendingText: null,
+    flushTimer: null,
+    inFlight: null,
+    closed: false,
+  };
+}
+
+// Stream the answer so far into the card's content variable.
+// The full text is sent each time (isFull), so a dropped update is repaired by the next one.
+async function streamAICard(
+  config: DingTalkConfig,
+  card: AICardInstance,
+  text: string,
+  options: { finalize?: boolean; log?: Logger } = {}
+): Promise<void> {
+  if (!card.inputing) {
+    card.inputing = true;
+    await updateAICardData(config, card, { flowStatus: AI_CARD_STATUS.INPUTING }, options.log);
+  }
+  card.lastStreamedAt = Date.now();
+
+  const content = prepareOutgoingText(config, text, true);
+  await queueCardUpdate(
+    config,
+    card.outTrackId,
+    () =>
+      withAccessToken(
+        config,
+        (token) =>
+          axios.put(
+            'https://api.dingtalk.com/v1.0/card/streaming',
+            {
+              outTrackId: card.outTrackId,
+              guid: randomUUID(),
+              key: card.contentKey,
+              content,
+              isFull: true,
+              isFinalize: !!options.finalize,
+              isError: false,
+            },
+            { headers: { 'x-acs-dingtalk-access-token': token, 'Content-Type': 'application/json' } }
+          ),
+        options.log
+      ),
+    options.log
+  );
+
+  const instance = cardInstances.get(card.outTrackId);
+  if (instance) instance.lastUpdated = Date.now();
+}
+
+// Stream partial output at most once per aiCardStreamIntervalMs; only the latest text is kept in between
+function streamAICardThrottled(config: DingTalkConfig, card: AICardInstance, text: string, log?: Logger): void {
+  if (card.closed) return;
+  card.pendingText = text;
+  scheduleAICardFlush(config, card, log);
+}
+
+// Send the pending text once the interval has passed. One update is in flight at a time; text
+// arriving meanwhile waits and goes out when it is done.
+function scheduleAICardFlush(config: DingTalkConfig, card: AICardInstance, log?: Logger): void {
+  if (card.closed || card.flushTimer || card.inFlight || card.pendingText === null) return;
+
+  const interval = config.aiCardStreamIntervalMs || 300;
+  const delay = Math.max(0, card.lastStreamedAt + interval - Date.now());
+  card.flushTimer = setTimeout(() => {
+    card.flushTimer = null;
+    const pending = card.pendingText;
+    card.pendingText = null;
+    if (card.closed || pending === null) return;
+    card.inFlight = streamAICard(config, card, pending, { log })
+      .catch((err) => {
+        log?.warn?.(`[DingTalk] AI card stream update failed: ${getErrorMessage(err)}`);
+      })
+      .finally(() => {
+        card.inFlight = null;
+        scheduleAICardFlush(config, card, log);
+      });
+  }, delay);
+}
+
+// Stop throttled updates; later partials are ignored
+function closeAICard(card: AICardInstance): void {
+  card.closed = true;
+  card.pendingText = null;
+  if (card.flushTimer) {
+    clearTimeout(card.flushTimer);
+    card.flushTimer = null;
+  }
+}
+
+// Stream the final answer and mark the card finished
+async function finishAICard(config: DingTalkConfig, card: AICardInstance, text: string, log?: Logger): Promise<void> {
+  closeAICard(card);
+  // The final update must not overtake a partial one still in flight
+  await card.inFlight;
+  await streamAICard(config, card, text, { finalize: true, log });
+  await updateAICardData(
+    config,
+    card,
+    { flowStatus: AI_CARD_STATUS.FINISHED, [card.contentKey]: prepareOutgoingText(config, text, true) },
+    log
+  );
+  log?.info?.(`[DingTalk] AI card finished - outTrackId: ${card.outTrackId}`);
+}
+
+// Mark the card failed, keeping whatever was answered before the error
+async function failAICard(config: DingTalkConfig, card: AICardInstance, text: string, log?: Logger): Promise<void> {
+  closeAICard(card);
+  await card.inFlight;
+  await updateAICardData(
+    config,
+    card,
+    { flowStatus: AI_CARD_STATUS.FAILED, [card.contentKey]: prepareOutgoingText(config, text, true) },
+    log
+  );
+  log?.info?.(`[DingTalk] AI card failed - outTrackId: ${card.outTrackId}`);
+}
+
+// Send a complete answer as an AI card (create, then finish)
+async function sendAICard(
+  config: DingTalkConfig,
+  conversationId: string,
+  text: string,
+  log?: Logger
+): Promise<{ outTrackId: string }> {
+  const card = await createAICard(config, conversationId, log);
+  await finishAICard(config, card, text, log);
+  return { outTrackId: card.outTrackId };
+}
+
+// Send message with automatic mode selection (text/markdown/card/aicard)
 async function sendMessage(
   config: DingTalkConfig,
   conversationId: string,
   text: string,
-  options: SendMessageOptions & { cardBizId?: string; sessionWebhook?: string } = {}
+  options: SendMessageOptions & { cardBizId?: string; sessionWebhook?: string; sessionWebhookExpiredTime?: number } = {}
 ): Promise<{ ok: boolean; cardBizId?: string; error?: string }> {
   options.log?.info?.(`[DingTalk] sendMessage called - conversationId: ${conversationId}, textLength: ${text.length}`);
   options.log?.debug?.(
@@ -1267,14 +2309,27 @@ async function sendMessage(
     options.log?.debug?.(`[DingTalk] sendMessage determined messageType: ${messageType}`);
 
     // If sessionWebhook is provided, use session-based sending (for replies during conversation)
+    // Falls back to the proactive API once the webhook has expired
     if (options.sessionWebhook) {
       options.log?.info?.(`[DingTalk] sendMessage using session-based sending via sendBySession`);
       options.log?.debug?.(`[DingTalk] sendMessage sessionWebhook: ${options.sessionWebhook}`);
-      await sendBySession(config, options.sessionWebhook, text, options);
+      const { cardBizId: _cardBizId, sessionWebhook, sessionWebhookExpiredTime, ...sendOptions } = options;
+      await sendReply(
+        config,
+        { sessionWebhook, sessionWebhookExpiredTime, conversationId },
+        text,
+        sendOptions
+      );
       options.log?.info?.(`[DingTalk] sendMessage session-based send completed successfully`);
       return { ok: true };
     }
 
+    if (messageType === 'aicard') {
+      options.log?.info?.(`[DingTalk] sendMessage using AI card mode`);
+      const { outTrackId } = await sendAICard(config, conversationId, text, options.log);
+      return { ok: true, cardBizId: outTrackId };
+    }
+
     // For card mode with streaming
     if (messageType === 'card') {
       options.log?.info?.(`[DingTalk] sendMessage using card mode`);
@@ -1323,11 +2378,16 @@ async function processMergedMessages(
   const { log } = params;
 
   log?.info?.(`[DingTalk] Processing ${entry.messages.length} merged messages for ${cacheKey}`);
+  if (entry.messages.length > 1) {
+    mergedTurnCounts.set(entry.accountId, (mergedTurnCounts.get(entry.accountId) ?? 0) + 1);
+  }
 
-  // Merge all text content
+  // Merge all text content; a conversation-scoped buffer can hold several senders, so each
+  // message is labelled with its sender then
+  const senders = new Set(entry.messages.map((m) => m.data.senderStaffId || m.data.senderId));
   const mergedText = entry.messages
-    .map((m) => m.content.text)
-    .filter(Boolean)
+    .filter((m) => m.content.text)
+    .map((m) => (senders.size > 1 ? `${m.data.senderNick || m.data.senderId}: ${m.content.text}` : m.content.text))
     .join('\n\n');
 
   // Collect all media files from all messages
@@ -1362,6 +2422,9 @@ async function processMergedMessages(
     mediaType: uniqueMediaFiles[0]?.type,
     richTextParts: allRichTextParts,
     mediaFiles: uniqueMediaFiles,
+    // Only one quote can be passed on; the first one is what the burst started from
+    quoted: entry.messages.find((m) => m.content.quoted)?.content.quoted,
+    mentions: mergeMentions(entry.messages.map((m) => m.content.mentions)),
   };
 
   // Update params to use merged content and first message's data
@@ -1371,12 +2434,26 @@ async function processMergedMessages(
   };
 
   // Process merged messages by calling the original handler with merged content
-  await handleDingTalkMessageOriginal(mergedParams, mergedContent);
+  await trackInflight(params.accountId, handleDingTalkMessageOriginal(mergedParams, mergedContent));
+}
+
+// Whether a message may join a merge buffer: group messages must pass the group access
+// and mention checks the handler applies to the buffer's first message
+function isMergeable(
+  config: DingTalkConfig,
+  data: DingTalkInboundMessage,
+  content: MessageContent,
+  senderId: string
+): boolean {
+  if (data.conversationType === '1') return true;
+  if (checkGroupAccess(config, data.conversationId, senderId) !== null) return false;
+  const wasMentioned = content.mentions?.some((mention) => mention.isBot) || data.isInAtList !== false;
+  return wasMentioned || !resolveGroupRequireMention(config, data.conversationId);
 }
 
 // Message handler
 async function handleDingTalkMessage(params: HandleDingTalkMessageParams): Promise<void> {
-  const { accountId, data, log } = params;
+  const { accountId, data, log, dingtalkConfig } = params;
 
   // Wrap logger with file/line location info for better debugging
   const wrappedLog = createLoggerWithLocation(log, 'channel.ts');
@@ -1394,15 +2471,49 @@ async function handleDingTalkMessage(params: HandleDingTalkMessageParams): Promi
   }
   log?.debug?.('[DingTalk] Message is not from robot itself');
 
-  // NEW: Message merge logic
+  // Drop stream redeliveries (late ack or reconnect) of a message that was already handled
+  const isNewMessage = markMessageSeen(
+    accountId,
+    data.msgId,
+    {
+      ttlMs: dingtalkConfig.dedupTtlMs,
+      maxEntries: dingtalkConfig.dedupMaxEntries,
+      storeDir: dingtalkConfig.dedupStoreDir,
+    },
+    log
+  );
+  if (!isNewMessage) {
+    const { dropped } = getMessageDedupStats(accountId);
+    log?.info?.(`[DingTalk] Dropping duplicate message ${data.msgId} (duplicates dropped: ${dropped})`);
+    return;
+  }
+
+  // Merge quick successive messages into one turn
+  const mergeOptions = resolveMergeOptions(dingtalkConfig.merge);
   const senderId = data.senderStaffId || data.senderId;
-  const cacheKey = `${accountId}:${senderId}:${data.conversationId}`;
-  const existingEntry = messageMergeCache.get(cacheKey);
+  const cacheKey = getMergeKey(accountId, data.conversationId, senderId, mergeOptions.scope);
+  const content = extractMessageContent(data);
+  // Commands are handled on their own, never buffered with or merged into other messages
+  const isCommand =
+    dingtalkConfig.nativeCommands !== false &&
+    !!parseCommand(stripBotMentions(content.text, content.mentions || []), dingtalkConfig.commandPrefix);
+  // Group messages the handler would turn away are never merged into another message's turn
+  // (a conversation-scoped buffer is checked against its first message only)
+  const mergeable = !isCommand && mergeOptions.enabled && isMergeable(dingtalkConfig, data, content, senderId);
+  const existingEntry = mergeable ? messageMergeCache.get(cacheKey) : undefined;
+  // Adaptive mode: a message that reads as complete ends the window right away
+  const complete = mergeOptions.adaptive && looksComplete(content);
+
+  if (!existingEntry && (!mergeable || complete)) {
+    log?.info?.(
+      `[DingTalk] Handling message ${data.msgId} immediately (${isCommand ? 'command' : mergeable ? 'looks complete' : 'not merged'})`
+    );
+    await trackInflight(accountId, handleDingTalkMessageOriginal(params));
+    return;
+  }
 
   if (existingEntry) {
     // Within merge window - add to queue
-    const content = extractMessageContent(data);
-
     existingEntry.messages.push({
       content,
       data,
@@ -1410,60 +2521,165 @@ async function handleDingTalkMessage(params: HandleDingTalkMessageParams): Promi
     });
 
     log?.info?.(
-      `[DingTalk] Message ${data.msgId} added to merge queue (${existingEntry.messages.length}/${MESSAGE_MERGE_MAX_MESSAGES})`
+      `[DingTalk] Message ${data.msgId} added to merge queue (${existingEntry.messages.length}/${mergeOptions.maxMessages})`
     );
 
-    // Check if max reached
-    if (existingEntry.messages.length >= MESSAGE_MERGE_MAX_MESSAGES) {
+    // Flush early when the buffer is full or the latest message completes it
+    if (existingEntry.messages.length >= mergeOptions.maxMessages || complete) {
       clearTimeout(existingEntry.timer);
-      log?.info?.(`[DingTalk] Max messages reached (${MESSAGE_MERGE_MAX_MESSAGES}), triggering early merge`);
-      const entryToProcess = messageMergeCache.get(cacheKey);
+      log?.info?.(
+        `[DingTalk] ${complete ? 'Message looks complete' : `Max messages reached (${mergeOptions.maxMessages})`}, triggering early merge`
+      );
       messageMergeCache.delete(cacheKey);
-      if (entryToProcess) {
-        await processMergedMessages(cacheKey, entryToProcess, params);
-      }
+      await processMergedMessages(cacheKey, existingEntry, existingEntry.params);
     }
-    return; // Skip normal processing - will be handled by timer or max trigger
+    return; // Skip normal processing - will be handled by timer or early flush
   }
 
   // First message in potential merge window - create entry and set timer
-  const content = extractMessageContent(data);
-
   const entry: MergedMessageEntry = {
     messages: [{ content, data, timestamp: Date.now() }],
     timer: null as any,
+    windowMs: mergeOptions.windowMs,
     accountId,
     senderId,
     sessionKey: '',
     startTime: Date.now(),
+    params,
   };
 
-  // Set up timer that will fire after 2 seconds
+  // Set up timer that will fire after the merge window
   entry.timer = setTimeout(async () => {
     const cached = messageMergeCache.get(cacheKey);
     if (cached && cached.messages.length > 0) {
       messageMergeCache.delete(cacheKey);
       log?.info?.(
-        `[DingTalk] Merge window expired (${MESSAGE_MERGE_WINDOW_MS}ms), processing ${cached.messages.length} merged messages`
+        `[DingTalk] Merge window expired (${mergeOptions.windowMs}ms), processing ${cached.messages.length} merged messages`
       );
-      await processMergedMessages(cacheKey, cached, params);
+      await processMergedMessages(cacheKey, cached, cached.params);
     }
-  }, MESSAGE_MERGE_WINDOW_MS);
+  }, mergeOptions.windowMs);
 
   messageMergeCache.set(cacheKey, entry);
-  log?.info?.(`[DingTalk] Started new merge window for ${cacheKey}, timer: ${MESSAGE_MERGE_WINDOW_MS}ms`);
+  log?.info?.(`[DingTalk] Started new merge window for ${cacheKey}, timer: ${mergeOptions.windowMs}ms`);
 
   // Wait for timer to process all messages together
   // Don't process this first message immediately
   return;
 }
 
+// Answer a slash command: /help and /whoami here, the others by handing them to OpenClaw as a
+// native command. Results are sent back like replies: session webhook, or the proactive API without one.
+async function handleNativeCommand(options: {
+  params: HandleDingTalkMessageParams;
+  config: DingTalkConfig;
+  command: ParsedCommand;
+  route: { sessionKey: string; mainSessionKey: string };
+  storePath: string;
+  chatType: 'direct' | 'group';
+  replyTarget: ReplyTarget;
+  senderName: string;
+  commandAuthorized: boolean;
+}): Promise<void> {
+  const { params, config, command, route, storePath, chatType, replyTarget, senderName, commandAuthorized } = options;
+  const { cfg, accountId, data, log } = params;
+  const to = replyTarget.conversationId;
+  const rt = getDingTalkRuntime();
+  const senderId = data.senderStaffId || data.senderId;
+  const prefix = config.commandPrefix || '/';
+  const name = command.command.name;
+
+  const reply = async (text: string): Promise<void> => {
+    try {
+      await sendReply(config, replyTarget, text, { log });
+    } catch (err) {
+      log?.error?.(`[DingTalk] Failed to send command reply for /${name}: ${getErrorMessage(err)}`);
+    }
+  };
+
+  log?.info?.(`[DingTalk] Command /${name} from ${senderId} (authorized: ${commandAuthorized})`);
+
+  if (!isCommandAvailable(command.command, chatType)) {
+    await reply(`该命令在${chatType === 'direct' ? '单聊' : '群聊'}中不可用，发送 ${prefix}help 查看可用命令。`);
+    return;
+  }
+  if (command.command.requiresAuth && !commandAuthorized) {
+    await reply(`⛔ 您没有使用 ${prefix}${name} 的权限\n\n您的用户ID：\`${senderId}\``);
+    return;
+  }
+
+  if (name === 'help') {
+    await reply(formatCommandHelp({ chatType, authorized: commandAuthorized, prefix }));
+    return;
+  }
+  if (name === 'whoami') {
+    await reply(`用户ID：\`${senderId}\`\n\n${chatType === 'direct' ? '会话' : '群会话'}ID：\`${to}\``);
+    return;
+  }
+  // Stop the plugin's running and queued replies too, not only the agent run
+  if (name === 'stop' && abortSessionTurns(route.sessionKey)) {
+    log?.info?.(`[DingTalk] Aborted running replies of session ${route.sessionKey}`);
+  }
+
+  const ctx = rt.channel.reply.finalizeInboundContext({
+    Body: command.openclawText,
+    RawBody: command.openclawText,
+    CommandBody: command.openclawText,
+    CommandSource: 'native',
+    CommandAuthorized: commandAuthorized,
+    From: to,
+    To: to,
+    SessionKey: route.sessionKey,
+    AccountId: accountId,
+    ChatType: chatType,
+    GroupSubject: chatType === 'direct' ? undefined : data.conversationTitle,
+    SenderName: senderName,
+    SenderId: senderId,
+    Provider: 'dingtalk',
+    Surface: 'dingtalk',
+    MessageSid: data.msgId,
+    Timestamp: data.createAt,
+    OriginatingChannel: 'dingtalk',
+    OriginatingTo: to,
+  });
+  await rt.channel.session.recordInboundSession({
+    storePath,
+    sessionKey: ctx.SessionKey || route.sessionKey,
+    ctx,
+    updateLastRoute: { sessionKey: route.mainSessionKey, channel: 'dingtalk', to, accountId },
+  });
+
+  const { dispatcher, replyOptions, markDispatchIdle } = rt.channel.reply.createReplyDispatcherWithTyping({
+    responsePrefix: '',
+    deliver: async (payload: { text?: string; markdown?: string }) => {
+      const text = payload.markdown || payload.text;
+      if (text) await reply(text);
+      return { ok: true };
+    },
+  });
+  try {
+    await rt.channel.reply.dispatchReplyFromConfig({ ctx, cfg, dispatcher, replyOptions });
+  } finally {
+    markDispatchIdle();
+  }
+}
+
+// Acknowledgement sent when a message arrives while the session's previous reply is still running
+const BUSY_ACK_TEXT: Record<BusyPolicy, string> = {
+  queue: '⏳ 上一条消息还在处理中，这条消息会在回复完成后处理。',
+  interrupt: '⏹️ 已停止上一条回复，将结合新消息重新回答。',
+  steer: '➕ 已将这条消息补充到正在进行的回答中。',
+};
+
+// Shown on the card of a reply stopped by a newer message
+const BUSY_INTERRUPTED_TEXT = '_（已被新消息打断）_';
+
 // Continue with original handleDingTalkMessage logic for non-merged messages
 async function handleDingTalkMessageOriginal(
   params: HandleDingTalkMessageParams,
   preExtractedContent?: RichTextContent
 ): Promise<void> {
-  const { cfg, accountId, data, sessionWebhook, log, dingtalkConfig } = params;
+  const { cfg, accountId, data, sessionWebhook, log, dingtalkConfig: accountConfig } = params;
   const rt = getDingTalkRuntime();
 
   // Wrap logger with file/line location info for better debugging
@@ -1493,9 +2709,32 @@ async function handleDingTalkMessageOriginal(
   const groupId = data.conversationId;
   const groupName = data.conversationTitle || 'Group';
 
+  // The robot counts as mentioned when its @ is among the parsed mentions; isInAtList is only
+  // present (false) when DingTalk delivers group messages that do not @ the robot
+  const mentions = content.mentions || [];
+  const botMentioned = mentions.some((mention) => mention.isBot);
+  const wasMentioned = botMentioned || data.isInAtList !== false;
+
   log?.info?.(`[DingTalk] Message context - isDirect: ${isDirect}, senderId: ${senderId}, senderName: ${senderName}`);
   log?.debug?.(`[DingTalk] Group info - groupId: ${groupId}, groupName: ${groupName}`);
 
+  // Apply per-group overrides (reply mode, thinking indicator) on top of the account config
+  const groupConfig = isDirect ? {} : resolveGroupConfig(accountConfig, groupId);
+  const dingtalkConfig: DingTalkConfig = {
+    ...accountConfig,
+    messageType: groupConfig.messageType ?? accountConfig.messageType,
+    showThinking: groupConfig.showThinking ?? accountConfig.showThinking,
+  };
+
+  // Notices and replies go through the sessionWebhook, or the proactive API when there is none
+  // (card actions) or it has expired
+  const to = isDirect ? senderId : groupId;
+  const replyTarget: ReplyTarget = {
+    sessionWebhook,
+    sessionWebhookExpiredTime: data.sessionWebhookExpiredTime,
+    conversationId: to,
+  };
+
   // 2. Check authorization for direct messages based on dmPolicy
   let commandAuthorized = true;
   if (isDirect) {
@@ -1516,15 +2755,15 @@ async function handleDingTalkMessageOriginal(
         // Notify user with their sender ID so they can request access
         try {
           log?.info?.('[DingTalk] Sending access denied notification');
-          await sendBySession(
+          await sendReply(
             dingtalkConfig,
-            sessionWebhook,
+            replyTarget,
             `⛔ 访问受限\n\n您的用户ID：\`${senderId}\`\n\n请联系管理员将此ID添加到允许列表中。`,
             { log }
           );
           log?.info?.('[DingTalk] Access denied notification sent successfully');
-        } catch (err: any) {
-          log?.error?.(`[DingTalk] Failed to send access denied message: ${err.message}`);
+        } catch (err) {
+          log?.error?.(`[DingTalk] Failed to send access denied message: ${getErrorMessage(err)}`);
         }
 
         return;
@@ -1532,18 +2771,119 @@ async function handleDingTalkMessageOriginal(
 
       log?.info?.(`[DingTalk] DM authorized: senderId=${senderId} in allowlist`);
     } else if (dmPolicy === 'pairing') {
-      log?.info?.('[DingTalk] DM policy is pairing, SDK will handle authorization');
+      // Senders approved through pairing are persisted in the channel's allowFrom store
+      let storeAllowFrom: string[] = [];
+      try {
+        // Approvals are stored per account, like the pairing requests below
+        storeAllowFrom = await rt.channel.pairing.readAllowFromStore({ channel: 'dingtalk', accountId });
+      } catch (err) {
+        log?.warn?.(`[DingTalk] Failed to read pairing allowFrom store: ${getErrorMessage(err)}`);
+      }
+      const normalizedAllowFrom = normalizeAllowFrom([...allowFrom, ...storeAllowFrom]);
+      const isPaired =
+        normalizedAllowFrom.hasWildcard || normalizedAllowFrom.entriesLower.includes(senderId.toLowerCase());
+
+      log?.debug?.(`[DingTalk] Pairing check - senderId: ${senderId}, isPaired: ${isPaired}`);
+
+      if (!isPaired) {
+        log?.info?.(`[DingTalk] DM blocked: senderId=${senderId} not paired (dmPolicy=pairing)`);
+
+        try {
+          const { code, created } = await rt.channel.pairing.upsertPairingRequest({
+            channel: 'dingtalk',
+            id: senderId,
+            accountId,
+            meta: { name: senderName },
+          });
+
+          // Only the first message of a pending request gets the code; the request expires in the store
+          if (created) {
+            log?.info?.(`[DingTalk] Pairing request created for senderId=${senderId}, sending pairing code`);
+            await sendReply(
+              dingtalkConfig,
+              replyTarget,
+              rt.channel.pairing.buildPairingReply({
+                channel: 'dingtalk',
+                idLine: `您的钉钉用户ID：${senderId}`,
+                code,
+              }),
+              { useMarkdown: false, log }
+            );
+          } else {
+            log?.debug?.(`[DingTalk] Pairing request already pending for senderId=${senderId}`);
+          }
+        } catch (err) {
+          log?.error?.(`[DingTalk] Failed to issue pairing code: ${getErrorMessage(err)}`);
+        }
+
+        return;
+      }
+
+      log?.info?.(`[DingTalk] DM authorized: senderId=${senderId} is paired`);
       commandAuthorized = true;
     } else {
       log?.info?.('[DingTalk] DM policy is open, allowing all messages');
       commandAuthorized = true;
     }
+  } else {
+    const groupPolicy = dingtalkConfig.groupPolicy || 'open';
+    log?.info?.(`[DingTalk] Group policy check - groupPolicy: ${groupPolicy}, groupId: ${groupId}`);
+
+    const denied = checkGroupAccess(dingtalkConfig, groupId, senderId);
+    if (denied) {
+      log?.info?.(
+        `[DingTalk] Group message blocked: ${denied === 'group' ? `groupId=${groupId} not in groupAllowFrom` : `senderId=${senderId} not allowed in group ${groupId}`} (groupPolicy=allowlist)`
+      );
+
+      const notice =
+        dingtalkConfig.groupDenyMessage ??
+        (denied === 'group'
+          ? `⛔ 本群未开通机器人\n\n群会话ID：\`${groupId}\`\n\n请联系管理员将此ID添加到群允许列表中。`
+          : `⛔ 访问受限\n\n您的用户ID：\`${senderId}\`\n\n请联系管理员将此ID添加到本群的允许列表中。`);
+      if (notice) {
+        try {
+          await sendReply(dingtalkConfig, replyTarget, notice, { atUserId: senderId, log });
+        } catch (err) {
+          log?.error?.(`[DingTalk] Failed to send group access denied message: ${getErrorMessage(err)}`);
+        }
+      }
+
+      return;
+    }
+
+    if (groupConfig.enabled === false) {
+      log?.info?.(`[DingTalk] Group ${groupId} is disabled in groups config, ignoring message`);
+      return;
+    }
+
+    if (resolveGroupRequireMention(accountConfig, groupId) && !wasMentioned) {
+      log?.info?.(`[DingTalk] Group ${groupId} requires @mention, ignoring message without mention`);
+      return;
+    }
+  }
+
+  // Commands are limited to commandAllowFrom when it is set
+  if (dingtalkConfig.commandAllowFrom?.length) {
+    commandAuthorized = isSenderAllowed({ allow: normalizeAllowFrom(dingtalkConfig.commandAllowFrom), senderId });
   }
 
   // 3. Resolve agent route (moved before media handling to get sessionKey)
   log?.info?.('[DingTalk] Resolving agent route...');
+  // A group-level agentId takes precedence over configured bindings
+  const routeCfg = groupConfig.agentId
+    ? {
+        ...cfg,
+        bindings: [
+          {
+            agentId: groupConfig.agentId,
+            match: { channel: 'dingtalk', accountId, peer: { kind: 'group', id: groupId } },
+          },
+          ...(cfg.bindings ?? []),
+        ],
+      }
+    : cfg;
   const route = rt.channel.routing.resolveAgentRoute({
-    cfg,
+    cfg: routeCfg,
     channel: 'dingtalk',
     accountId,
     peer: { kind: isDirect ? 'dm' : 'group', id: isDirect ? senderId : groupId },
@@ -1554,6 +2894,26 @@ async function handleDingTalkMessageOriginal(
   const storePath = rt.channel.session.resolveStorePath(cfg.session?.store, { agentId: route.agentId });
   log?.info?.(`[DingTalk] Session store path: ${storePath}`);
 
+  // Slash commands are answered directly instead of going through the agent turn
+  const command =
+    dingtalkConfig.nativeCommands !== false
+      ? parseCommand(stripBotMentions(content.text, mentions), dingtalkConfig.commandPrefix)
+      : null;
+  if (command) {
+    await handleNativeCommand({
+      params,
+      config: dingtalkConfig,
+      command,
+      route,
+      storePath,
+      chatType: isDirect ? 'direct' : 'group',
+      replyTarget,
+      senderName,
+      commandAuthorized,
+    });
+    return;
+  }
+
   // 4. Handle media files (now has access to sessionKey and storePath)
   let mediaFile: SessionMediaFile | undefined;
   let mediaType: string | undefined;
@@ -1674,212 +3034,461 @@ async function handleDingTalkMessageOriginal(
     );
   }
 
-  const envelopeOptions = rt.channel.reply.resolveEnvelopeFormatOptions(cfg);
-  log?.debug?.(`[DingTalk] Envelope options: ${JSON.stringify(envelopeOptions)}`);
-
-  const previousTimestamp = rt.channel.session.readSessionUpdatedAt({ storePath, sessionKey: route.sessionKey });
-  log?.debug?.(`[DingTalk] Previous session timestamp: ${previousTimestamp || 'none'}`);
-
-  // 5. Format inbound envelope
-  const fromLabel = isDirect ? `${senderName} (${senderId})` : `${groupName} - ${senderName}`;
-  log?.debug?.(`[DingTalk] From label: ${fromLabel}`);
-
-  const body = rt.channel.reply.formatInboundEnvelope({
-    channel: 'DingTalk',
-    from: fromLabel,
-    timestamp: data.createAt,
-    body: content.text,
-    chatType: isDirect ? 'direct' : 'group',
-    sender: { name: senderName, id: senderId },
-    previousTimestamp,
-    envelope: envelopeOptions,
-  });
-  log?.debug?.(`[DingTalk] Inbound envelope formatted`);
+  // Quoted reply: download the quoted message's media too, so the agent can look at what is referenced
+  const quotedMediaFiles: SessionMediaFile[] = [];
+  if (content.quoted && content.quoted.mediaFiles.length > 0 && dingtalkConfig.robotCode) {
+    const sessionTimeout = cfg.session?.timeout || 3600000;
+    for (const [i, quotedFile] of content.quoted.mediaFiles.entries()) {
+      const downloadedMedia = await downloadMedia(
+        dingtalkConfig,
+        quotedFile.downloadCode,
+        route.sessionKey,
+        storePath,
+        quotedFile.fileName || `quoted_${content.quoted.msgId || data.msgId}_${i}`,
+        content.quoted.msgId || data.msgId,
+        log
+      );
+      if (downloadedMedia) {
+        downloadedMedia.expiresAt = Date.now() + sessionTimeout * 2;
+        quotedMediaFiles.push(downloadedMedia);
+      } else {
+        log?.info?.(`[DingTalk] Failed to download quoted media ${i + 1} of message ${content.quoted.msgId || '?'}`);
+      }
+    }
+    log?.info?.(`[DingTalk] Quoted media downloaded: ${quotedMediaFiles.length}/${content.quoted.mediaFiles.length}`);
+  }
 
-  const to = isDirect ? senderId : groupId;
   log?.debug?.(`[DingTalk] Target (to): ${to}`);
 
-  // 6. Finalize context
-  log?.info?.('[DingTalk] Finalizing inbound context...');
-
-  // 构建基础上下文
-  const contextData: any = {
-    Body: body,
-    RawBody: content.text,
-    CommandBody: content.text,
-    From: to,
-    To: to,
-    SessionKey: route.sessionKey,
-    AccountId: accountId,
-    ChatType: isDirect ? 'direct' : 'group',
-    ConversationLabel: fromLabel,
-    GroupSubject: isDirect ? undefined : groupName,
-    SenderName: senderName,
-    SenderId: senderId,
-    Provider: 'dingtalk',
-    Surface: 'dingtalk',
-    MessageSid: data.msgId,
-    Timestamp: data.createAt,
-    MediaPath: mediaPath,
-    MediaType: mediaType,
-    MediaUrl: mediaPath,
-    CommandAuthorized: commandAuthorized,
-    OriginatingChannel: 'dingtalk',
-    OriginatingTo: to,
-  };
-
-  // 如果是富文本消息，添加富文本组件信息
-  if (content.messageType === 'richText' && 'richTextParts' in content) {
-    contextData.RichTextParts = content.richTextParts;
-    contextData.MediaFiles = downloadedMediaFiles.map((mf) => ({
-      path: mf.path,
-      mimeType: mf.mimeType,
-      fileName: mf.fileName,
-    }));
-    log?.info?.(
-      `[DingTalk] Added richText info to context - parts: ${contextData.RichTextParts.length}, media files: ${contextData.MediaFiles.length}`
-    );
+  // One reply at a time per session: a message arriving mid-reply is queued, interrupts the
+  // running reply, or is steered into it (busyPolicy)
+  const busyPolicy = dingtalkConfig.busyPolicy || 'queue';
+  const turn = await beginSessionTurn(route.sessionKey, content.text, busyPolicy, log);
+  if (!turn) {
+    log?.info?.(`[DingTalk] Message ${data.msgId} was interrupted by a newer message before its turn, skipping`);
+    return;
   }
+  // Everything from here on runs inside the turn; it is released however this ends (after the
+  // reply card is final), so later messages of the session never wait on it forever
+  try {
+    if (turn.appliedPolicy && dingtalkConfig.busyAck !== false) {
+      try {
+        await sendReply(dingtalkConfig, replyTarget, BUSY_ACK_TEXT[turn.appliedPolicy], { useMarkdown: false, log });
+      } catch (err) {
+        log?.warn?.(`[DingTalk] Failed to send busy acknowledgement: ${getErrorMessage(err)}`);
+      }
+    }
+    // After an interrupt the turn answers the interrupted input and the new message together
+    const turnText = turn.text;
+
+    const envelopeOptions = rt.channel.reply.resolveEnvelopeFormatOptions(cfg);
+    log?.debug?.(`[DingTalk] Envelope options: ${JSON.stringify(envelopeOptions)}`);
+
+    const previousTimestamp = rt.channel.session.readSessionUpdatedAt({ storePath, sessionKey: route.sessionKey });
+    log?.debug?.(`[DingTalk] Previous session timestamp: ${previousTimestamp || 'none'}`);
+
+    // 5. Format inbound envelope
+    const fromLabel = isDirect ? `${senderName} (${senderId})` : `${groupName} - ${senderName}`;
+    log?.debug?.(`[DingTalk] From label: ${fromLabel}`);
+
+    const body = rt.channel.reply.formatInboundEnvelope({
+      channel: 'DingTalk',
+      from: fromLabel,
+      timestamp: data.createAt,
+      // Other users @mentioned are listed with their IDs so the agent can @ them back
+      body: [turnText, formatMentionsLine(mentions)].filter(Boolean).join('\n'),
+      chatType: isDirect ? 'direct' : 'group',
+      sender: { name: senderName, id: senderId },
+      previousTimestamp,
+      envelope: envelopeOptions,
+    });
+    log?.debug?.(`[DingTalk] Inbound envelope formatted`);
+
+    // 6. Finalize context
+    log?.info?.('[DingTalk] Finalizing inbound context...');
+
+    // 构建基础上下文
+    const contextData: any = {
+      Body: body,
+      RawBody: turnText,
+      CommandBody: stripBotMentions(turnText, mentions),
+      From: to,
+      To: to,
+      SessionKey: route.sessionKey,
+      AccountId: accountId,
+      ChatType: isDirect ? 'direct' : 'group',
+      ConversationLabel: fromLabel,
+      GroupSubject: isDirect ? undefined : groupName,
+      SenderName: senderName,
+      SenderId: senderId,
+      Provider: 'dingtalk',
+      Surface: 'dingtalk',
+      MessageSid: data.msgId,
+      Timestamp: data.createAt,
+      MediaPath: mediaPath,
+      MediaType: mediaType,
+      MediaUrl: mediaPath,
+      CommandAuthorized: commandAuthorized,
+      OriginatingChannel: 'dingtalk',
+      OriginatingTo: to,
+    };
 
-  const ctx = rt.channel.reply.finalizeInboundContext(contextData);
-  log?.info?.(`[DingTalk] Inbound context finalized - SessionKey: ${ctx.SessionKey}`);
+    if (!isDirect) {
+      const otherMentions = mentions.filter((mention) => !mention.isBot);
+      contextData.WasMentioned = wasMentioned;
+      contextData.ExplicitlyMentionedBot = botMentioned;
+      contextData.GroupRequireMention = resolveGroupRequireMention(accountConfig, groupId);
+      contextData.MentionedUserIds = otherMentions
+        .filter((mention) => !mention.isAtAll)
+        .map((mention) => mention.staffId || mention.userId);
+      contextData.Mentions = otherMentions;
+    }
 
-  // 7. Record session
-  log?.info?.('[DingTalk] Recording inbound session...');
-  await rt.channel.session.recordInboundSession({
-    storePath,
-    sessionKey: ctx.SessionKey || route.sessionKey,
-    ctx,
-    updateLastRoute: { sessionKey: route.mainSessionKey, channel: 'dingtalk', to, accountId },
-  });
-  log?.info?.('[DingTalk] Inbound session recorded successfully');
+    // Quoted reply context; quoted media is listed after the message's own media
+    if (content.quoted) {
+      const quoted = content.quoted;
+      contextData.ReplyToId = quoted.msgId;
+      contextData.ReplyToBody = quoted.text;
+      contextData.ReplyToSender = quoted.senderName || quoted.senderId;
+      contextData.ReplyToIsQuote = true;
+      contextData.ReplyChain = [
+        {
+          messageId: quoted.msgId,
+          sender: quoted.senderName,
+          senderId: quoted.senderId,
+          timestamp: quoted.createdAt,
+          body: quoted.text,
+          isQuote: true,
+          mediaType: quotedMediaFiles[0]?.mimeType,
+          mediaPath: quotedMediaFiles[0]?.path,
+        },
+      ];
+
+      if (quotedMediaFiles.length > 0) {
+        const allMedia = [...downloadedMediaFiles, ...quotedMediaFiles];
+        contextData.MediaPaths = allMedia.map((mf) => mf.path);
+        contextData.MediaUrls = allMedia.map((mf) => mf.path);
+        contextData.MediaTypes = allMedia.map((mf) => mf.mimeType);
+        if (!contextData.MediaPath) {
+          contextData.MediaPath = quotedMediaFiles[0].path;
+          contextData.MediaUrl = quotedMediaFiles[0].path;
+          contextData.MediaType = quotedMediaFiles[0].mimeType;
+        }
+      }
+      log?.info?.(
+        `[DingTalk] Added quoted reply context - msgId: ${quoted.msgId || 'unknown'}, media files: ${quotedMediaFiles.length}`
+      );
+    }
 
-  log?.info?.(`[DingTalk] Inbound: from=${senderName} text="${content.text.slice(0, 50)}..."`);
+    // Structured payload of a card button press / form submit
+    if (data.cardAction) {
+      contextData.CardAction = data.cardAction;
+    }
 
-  // 8. Send "thinking" feedback
-  let currentCardBizId: string | undefined;
-  const useCardMode = dingtalkConfig.messageType === 'card';
+    // 如果是富文本消息，添加富文本组件信息
+    if (content.messageType === 'richText' && 'richTextParts' in content) {
+      contextData.RichTextParts = content.richTextParts;
+      contextData.MediaFiles = downloadedMediaFiles.map((mf) => ({
+        path: mf.path,
+        mimeType: mf.mimeType,
+        fileName: mf.fileName,
+      }));
+      log?.info?.(
+        `[DingTalk] Added richText info to context - parts: ${contextData.RichTextParts.length}, media files: ${contextData.MediaFiles.length}`
+      );
+    }
 
-  log?.info?.(
-    `[DingTalk] Reply mode - useCardMode: ${useCardMode}, showThinking: ${dingtalkConfig.showThinking !== false}`
-  );
+    const ctx = rt.channel.reply.finalizeInboundContext(contextData);
+    log?.info?.(`[DingTalk] Inbound context finalized - SessionKey: ${ctx.SessionKey}`);
 
-  if (dingtalkConfig.showThinking !== false) {
-    log?.info?.('[DingTalk] Sending "thinking" message...');
-    try {
-      if (useCardMode) {
-        log?.info?.('[DingTalk] Sending thinking card...');
-        const result = await sendInteractiveCard(dingtalkConfig, to, '🤔 思考中，请稍候...', { log });
-        currentCardBizId = result.cardBizId;
-        log?.info?.(`[DingTalk] Thinking card sent - cardBizId: ${currentCardBizId}`);
-      } else {
-        log?.info?.('[DingTalk] Sending thinking message via session webhook...');
-        await sendBySession(dingtalkConfig, sessionWebhook, '🤔 思考中，请稍候...', {
-          atUserId: !isDirect ? senderId : null,
-          log,
-        });
-        log?.info?.('[DingTalk] Thinking message sent successfully');
+    // 7. Record session
+    log?.info?.('[DingTalk] Recording inbound session...');
+    await rt.channel.session.recordInboundSession({
+      storePath,
+      sessionKey: ctx.SessionKey || route.sessionKey,
+      ctx,
+      updateLastRoute: { sessionKey: route.mainSessionKey, channel: 'dingtalk', to, accountId },
+    });
+    log?.info?.('[DingTalk] Inbound session recorded successfully');
+
+    log?.info?.(`[DingTalk] Inbound: from=${senderName} text="${content.text.slice(0, 50)}..."`);
+
+    // 8. Send "thinking" feedback
+    let currentCardBizId: string | undefined;
+    // Card mode: answer delivered so far, and the last delivery error (the card is marked failed on errors)
+    let cardAnswerText = '';
+    let replyError: unknown = null;
+    let thinkingMessageKeys: string[] = [];
+    // Take back the recallable thinking placeholder; later calls do nothing
+    const recallThinkingMessage = async (): Promise<void> => {
+      if (thinkingMessageKeys.length === 0) return;
+      const keys = thinkingMessageKeys;
+      thinkingMessageKeys = [];
+      try {
+        await recallMessage(dingtalkConfig, to, keys, log);
+      } catch (err) {
+        log?.warn?.(`[DingTalk] Failed to recall thinking message: ${getErrorMessage(err)}`);
       }
-    } catch (err: any) {
-      log?.error?.(`[DingTalk] Thinking message failed: ${err.message}`);
-      log?.debug?.(`[DingTalk] Thinking message error: ${err.stack}`);
-    }
-  }
-
-  // 9. Create reply dispatcher
-  log?.info?.('[DingTalk] Creating reply dispatcher...');
-  const { dispatcher, replyOptions, markDispatchIdle } = rt.channel.reply.createReplyDispatcherWithTyping({
-    responsePrefix: '',
-    deliver: async (payload: any) => {
+    };
+    // A steered message hands its text to the running turn, whose card or thinking message already
+    // shows progress; anything the core still answers for it is sent as plain replies
+    const steered = turn.appliedPolicy === 'steer';
+    const useCardMode = dingtalkConfig.messageType === 'card' && !steered;
+
+    // AI card mode: the card's processing state is the thinking indicator, and the answer streams into it.
+    // Without a usable card the reply falls back to markdown messages.
+    let aiCard: AICardInstance | null = null;
+    // Text of earlier deliveries in this reply; partial output of the current block is shown after it
+    let aiCardText = '';
+    if (dingtalkConfig.messageType === 'aicard' && !steered) {
       try {
-        log?.debug?.(`[DingTalk] Deliver payload received: ${JSON.stringify(payload)}`);
-        const textToSend = payload.markdown || payload.text;
-        log?.debug?.(`[DingTalk] Deliver called - textLength: ${textToSend?.length || 0}`);
+        aiCard = await createAICard(dingtalkConfig, to, log);
+      } catch (err) {
+        log?.error?.(`[DingTalk] AI card creation failed, replying with markdown: ${getErrorMessage(err)}`);
+      }
+    }
 
-        // Check for media files (single or multiple)
-        const hasMediaUrls = payload.mediaUrls && Array.isArray(payload.mediaUrls) && payload.mediaUrls.length > 0;
-        const hasMediaUrl = payload.mediaUrl && typeof payload.mediaUrl === 'string';
+    log?.info?.(
+      `[DingTalk] Reply mode - useCardMode: ${useCardMode}, aiCard: ${!!aiCard}, showThinking: ${dingtalkConfig.showThinking !== false}`
+    );
 
-        log?.debug?.(`[DingTalk] Media check - hasMediaUrls: ${hasMediaUrls}, hasMediaUrl: ${hasMediaUrl}`);
+    if (dingtalkConfig.showThinking !== false && !aiCard && !steered) {
+      log?.info?.('[DingTalk] Sending "thinking" message...');
+      try {
+        if (useCardMode) {
+          log?.info?.('[DingTalk] Sending thinking card...');
+          const result = await sendInteractiveCard(dingtalkConfig, to, CARD_PENDING_TEXT, { log });
+          currentCardBizId = result.cardBizId;
+          const instance = cardInstances.get(currentCardBizId);
+          if (instance) instance.state = 'pending';
+          log?.info?.(`[DingTalk] Thinking card sent - cardBizId: ${currentCardBizId}`);
+        } else if (dingtalkConfig.recallThinkingMessage) {
+          // Only proactive sends return the processQueryKey needed to recall the message afterwards
+          log?.info?.('[DingTalk] Sending recallable thinking message via proactive API...');
+          const result = await sendProactiveMessage(dingtalkConfig, to, '🤔 思考中，请稍候...', {
+            useMarkdown: false,
+            log,
+          });
+          thinkingMessageKeys = result?.processQueryKeys || [];
+          log?.info?.('[DingTalk] Thinking message sent successfully');
+        } else {
+          log?.info?.('[DingTalk] Sending thinking message via session webhook...');
+          await sendReply(dingtalkConfig, replyTarget, '🤔 思考中，请稍候...', {
+            atUserId: !isDirect ? senderId : null,
+            log,
+          });
+          log?.info?.('[DingTalk] Thinking message sent successfully');
+        }
+      } catch (err: any) {
+        log?.error?.(`[DingTalk] Thinking message failed: ${err.message}`);
+        log?.debug?.(`[DingTalk] Thinking message error: ${err.stack}`);
+      }
+    }
 
-        // Send media files first if present
-        if (hasMediaUrls) {
-          log?.info?.(`[DingTalk] Sending ${payload.mediaUrls.length} media file(s) from mediaUrls`);
-          for (const mediaUrl of payload.mediaUrls) {
+    // 9. Create reply dispatcher
+    log?.info?.('[DingTalk] Creating reply dispatcher...');
+    const { dispatcher, replyOptions, markDispatchIdle } = rt.channel.reply.createReplyDispatcherWithTyping({
+      responsePrefix: '',
+      deliver: async (payload: any) => {
+        // An interrupted reply stops delivering; the next turn answers instead
+        if (turn.signal.aborted) {
+          log?.debug?.('[DingTalk] Dropping reply payload of an interrupted turn');
+          return { ok: true };
+        }
+        try {
+          log?.debug?.(`[DingTalk] Deliver payload received: ${JSON.stringify(payload)}`);
+          const textToSend = payload.markdown || payload.text;
+          log?.debug?.(`[DingTalk] Deliver called - textLength: ${textToSend?.length || 0}`);
+
+          // Check for media files (single or multiple)
+          const hasMediaUrls = payload.mediaUrls && Array.isArray(payload.mediaUrls) && payload.mediaUrls.length > 0;
+          const hasMediaUrl = payload.mediaUrl && typeof payload.mediaUrl === 'string';
+
+          log?.debug?.(`[DingTalk] Media check - hasMediaUrls: ${hasMediaUrls}, hasMediaUrl: ${hasMediaUrl}`);
+
+          // Send media files first if present
+          if (hasMediaUrls) {
+            log?.info?.(`[DingTalk] Sending ${payload.mediaUrls.length} media file(s) from mediaUrls`);
+            for (const mediaUrl of payload.mediaUrls) {
+              try {
+                log?.info?.(`[DingTalk] Sending media file: ${mediaUrl}`);
+                await sendFileMessage(dingtalkConfig, to, mediaUrl, log);
+                log?.info?.(`[DingTalk] Media file sent successfully: ${mediaUrl}`);
+              } catch (err: any) {
+                log?.error?.(`[DingTalk] Failed to send media file ${mediaUrl}: ${err.message}`);
+                // Continue sending other files even if one fails
+              }
+            }
+          } else if (hasMediaUrl) {
+            log?.info?.(`[DingTalk] Sending single media file from mediaUrl: ${payload.mediaUrl}`);
             try {
-              log?.info?.(`[DingTalk] Sending media file: ${mediaUrl}`);
-              await sendFileMessage(dingtalkConfig, to, mediaUrl, log);
-              log?.info?.(`[DingTalk] Media file sent successfully: ${mediaUrl}`);
+              await sendFileMessage(dingtalkConfig, to, payload.mediaUrl, log);
+              log?.info?.(`[DingTalk] Media file sent successfully: ${payload.mediaUrl}`);
             } catch (err: any) {
-              log?.error?.(`[DingTalk] Failed to send media file ${mediaUrl}: ${err.message}`);
-              // Continue sending other files even if one fails
+              log?.error?.(`[DingTalk] Failed to send media file ${payload.mediaUrl}: ${err.message}`);
             }
           }
-        } else if (hasMediaUrl) {
-          log?.info?.(`[DingTalk] Sending single media file from mediaUrl: ${payload.mediaUrl}`);
+
+          // Then send text message if present; an actionCard / link / feedCard requested via
+          // channelData.dingtalk is sent in its place. A malformed one must not cost the answer itself.
+          let richMessage: RichMessage | null = null;
           try {
-            await sendFileMessage(dingtalkConfig, to, payload.mediaUrl, log);
-            log?.info?.(`[DingTalk] Media file sent successfully: ${payload.mediaUrl}`);
-          } catch (err: any) {
-            log?.error?.(`[DingTalk] Failed to send media file ${payload.mediaUrl}: ${err.message}`);
+            richMessage = parseRichMessage(payload.channelData, textToSend);
+          } catch (err) {
+            log?.warn?.(`[DingTalk] Invalid channelData.dingtalk, sending the text instead: ${getErrorMessage(err)}`);
           }
-        }
-
-        // Then send text message if present
-        if (textToSend) {
-          log?.info?.('[DingTalk] Sending text message');
-          if (useCardMode) {
-            log?.info?.(`[DingTalk] Delivering via card mode - hasCardBizId: ${!!currentCardBizId}`);
-            if (currentCardBizId) {
-              log?.debug?.(`[DingTalk] Updating existing card - cardBizId: ${currentCardBizId}`);
-              await updateInteractiveCard(dingtalkConfig, currentCardBizId, textToSend, { log });
-              log?.debug?.('[DingTalk] Card updated successfully');
+          if (aiCard && textToSend && !richMessage) {
+            aiCardText = aiCardText ? `${aiCardText}\n\n${textToSend}` : textToSend;
+            log?.info?.('[DingTalk] Delivering via AI card');
+            await streamAICard(dingtalkConfig, aiCard, aiCardText, { log });
+          } else if (richMessage) {
+            log?.info?.(`[DingTalk] Delivering ${richMessage.type} message`);
+            await sendReply(dingtalkConfig, replyTarget, textToSend || '', { richMessage, log });
+          } else if (textToSend) {
+            log?.info?.('[DingTalk] Sending text message');
+            if (useCardMode) {
+              log?.info?.(`[DingTalk] Delivering via card mode - hasCardBizId: ${!!currentCardBizId}`);
+              cardAnswerText = cardAnswerText ? `${cardAnswerText}\n\n${textToSend}` : textToSend;
+              if (currentCardBizId) {
+                log?.debug?.(`[DingTalk] Updating existing card - cardBizId: ${currentCardBizId}`);
+                // Stays in progress until the dispatch ends; the finally block marks it completed or failed
+                await updateCardState(dingtalkConfig, currentCardBizId, 'in-progress', { text: cardAnswerText }, log);
+                log?.debug?.('[DingTalk] Card updated successfully');
+              } else {
+                log?.info?.('[DingTalk] Creating new card for delivery');
+                const result = await sendInteractiveCard(dingtalkConfig, to, textToSend, { log });
+                currentCardBizId = result.cardBizId;
+                const instance = cardInstances.get(currentCardBizId);
+                if (instance) instance.state = 'in-progress';
+                log?.info?.(`[DingTalk] New card created - cardBizId: ${currentCardBizId}`);
+              }
             } else {
-              log?.info?.('[DingTalk] Creating new card for delivery');
-              const result = await sendInteractiveCard(dingtalkConfig, to, textToSend, { log });
-              currentCardBizId = result.cardBizId;
-              log?.info?.(`[DingTalk] New card created - cardBizId: ${currentCardBizId}`);
+              log?.info?.('[DingTalk] Delivering via session webhook');
+              await sendReply(dingtalkConfig, replyTarget, textToSend, {
+                atUserId: !isDirect ? senderId : null,
+                log,
+              });
+              log?.debug?.('[DingTalk] Message delivered via session webhook');
             }
+          }
+
+          // The answer is out: take back the thinking placeholder
+          await recallThinkingMessage();
+
+          return { ok: true };
+        } catch (err: any) {
+          replyError = err;
+          log?.error?.(`[DingTalk] Reply delivery failed: ${err.message}`);
+          log?.error?.(
+            `[DingTalk] Delivery error details: ${JSON.stringify({
+              message: err.message,
+              code: err.code,
+              status: err.response?.status,
+            })}`
+          );
+          return { ok: false, error: err.message };
+        }
+      },
+    });
+    log?.info?.('[DingTalk] Reply dispatcher created successfully');
+
+    const dispatchReplyOptions = { ...replyOptions, abortSignal: turn.signal };
+    if (aiCard) {
+      // Partial output streams into the AI card so users see the answer typing out
+      dispatchReplyOptions.onPartialReply = async (partial: { text?: string }) => {
+        await replyOptions?.onPartialReply?.(partial);
+        if (aiCard && partial.text) {
+          streamAICardThrottled(
+            dingtalkConfig,
+            aiCard,
+            aiCardText ? `${aiCardText}\n\n${partial.text}` : partial.text,
+            log
+          );
+        }
+      };
+    }
+    if (useCardMode) {
+      // Tool calls show up as steps on the in-progress card
+      dispatchReplyOptions.onToolStart = async (tool: unknown) => {
+        await replyOptions?.onToolStart?.(tool);
+        const event = toCardStepEvent(tool);
+        if (currentCardBizId && event) {
+          await trackCardStep(dingtalkConfig, currentCardBizId, event, cardAnswerText, log);
+        }
+      };
+      dispatchReplyOptions.onItemEvent = async (item: unknown) => {
+        await replyOptions?.onItemEvent?.(item);
+        const event = toCardStepEvent(item);
+        if (currentCardBizId && event) {
+          await trackCardStep(dingtalkConfig, currentCardBizId, event, cardAnswerText, log);
+        }
+      };
+    }
+
+    let dispatchError: unknown = null;
+    try {
+      await rt.channel.reply.dispatchReplyFromConfig({ ctx, cfg, dispatcher, replyOptions: dispatchReplyOptions });
+    } catch (err) {
+      // An interrupted run ending with an abort error is expected
+      if (!turn.signal.aborted) {
+        dispatchError = err;
+        throw err;
+      }
+    } finally {
+      markDispatchIdle();
+      // Runs that failed or produced nothing to deliver leave the placeholder behind otherwise
+      await recallThinkingMessage();
+
+      // Final card state: the answer, or an error summary with a retry hint
+      if (useCardMode && currentCardBizId) {
+        const failure = dispatchError || replyError;
+        try {
+          if (turn.signal.aborted) {
+            const text = [cardAnswerText, BUSY_INTERRUPTED_TEXT].filter(Boolean).join('\n\n');
+            await updateCardState(dingtalkConfig, currentCardBizId, 'completed', { text }, log);
+          } else if (failure) {
+            await updateCardState(
+              dingtalkConfig,
+              currentCardBizId,
+              'failed',
+              { text: cardAnswerText, error: summarizeCardError(failure) },
+              log
+            );
           } else {
-            log?.info?.('[DingTalk] Delivering via session webhook');
-            await sendBySession(dingtalkConfig, sessionWebhook, textToSend, {
-              atUserId: !isDirect ? senderId : null,
-              log,
-            });
-            log?.debug?.('[DingTalk] Message delivered via session webhook');
+            await updateCardState(dingtalkConfig, currentCardBizId, 'completed', { text: cardAnswerText }, log);
           }
+        } catch (err) {
+          log?.warn?.(`[DingTalk] Failed to finalize card ${currentCardBizId}: ${getErrorMessage(err)}`);
         }
+      }
 
-        return { ok: true };
-      } catch (err: any) {
-        log?.error?.(`[DingTalk] Reply delivery failed: ${err.message}`);
-        log?.error?.(
-          `[DingTalk] Delivery error details: ${JSON.stringify({
-            message: err.message,
-            code: err.code,
-            status: err.response?.status,
-          })}`
-        );
-        return { ok: false, error: err.message };
+      if (aiCard) {
+        try {
+          if (turn.signal.aborted) {
+            const text = [aiCardText, BUSY_INTERRUPTED_TEXT].filter(Boolean).join('\n\n');
+            await finishAICard(dingtalkConfig, aiCard, text, log);
+          } else if (dispatchError || replyError) {
+            await failAICard(dingtalkConfig, aiCard, aiCardText || '❌ 处理失败，请稍后重试', log);
+          } else {
+            await finishAICard(dingtalkConfig, aiCard, aiCardText || '（无回复内容）', log);
+          }
+        } catch (err) {
+          log?.warn?.(`[DingTalk] Failed to close AI card ${aiCard.outTrackId}: ${getErrorMessage(err)}`);
+        }
       }
-    },
-  });
-  log?.info?.('[DingTalk] Reply dispatcher created successfully');
 
-  try {
-    await rt.channel.reply.dispatchReplyFromConfig({ ctx, cfg, dispatcher, replyOptions });
-  } finally {
-    markDispatchIdle();
+      // 获取会话超时时间（从配置读取，默认1小时）
+      const sessionTimeout = cfg.session?.timeout || 3600000;
 
-    // 获取会话超时时间（从配置读取，默认1小时）
-    const sessionTimeout = cfg.session?.timeout || 3600000;
+      // 清理当前会话的过期媒体文件
+      if (storePath && route?.sessionKey) {
+        cleanupSessionMedia(storePath, route.sessionKey, sessionTimeout, log);
+      }
 
-    // 清理当前会话的过期媒体文件
-    if (storePath && route?.sessionKey) {
-      cleanupSessionMedia(storePath, route.sessionKey, sessionTimeout, log);
+      // 完全迁移到新机制，不再处理临时目录遗留文件
     }
-
-    // 完全迁移到新机制，不再处理临时目录遗留文件
+  } finally {
+    turn.release();
   }
 }
 
@@ -1900,7 +3509,7 @@ export const dingtalkPlugin = {
     reactions: false,
     threads: false,
     media: true,
-    nativeCommands: false,
+    nativeCommands: true,
     blockStreaming: false,
     outbound: true,
   },
@@ -1936,13 +3545,74 @@ export const dingtalkPlugin = {
       approveHint: '使用 /allow dingtalk:<userId> 批准用户',
       normalizeEntry: (raw: string) => raw.replace(/^(dingtalk|dd|ding):/i, ''),
     }),
+    resolveGroupPolicy: ({ account }: { account: ResolvedAccount }): GroupPolicyResolution => ({
+      policy: account.config?.groupPolicy || 'open',
+      allowFrom: account.config?.groupAllowFrom || [],
+      senderAllowFrom: account.config?.groupSenderAllowFrom || {},
+      policyPath: 'channels.dingtalk.groupPolicy',
+      allowFromPath: 'channels.dingtalk.groupAllowFrom',
+      approveHint: '将群会话 ID（openConversationId）添加到 channels.dingtalk.groupAllowFrom',
+      normalizeEntry: (raw: string) => raw.replace(/^(dingtalk|dd|ding):/i, ''),
+    }),
+  },
+  pairing: {
+    idLabel: 'dingtalkUserId',
+    normalizeAllowEntry: (entry: string): string => entry.replace(/^(dingtalk|dd|ding):/i, ''),
+    notifyApproval: async (params: { cfg: OpenClawConfig; id: string | number; accountId?: string }): Promise<void> => {
+      const config = getConfig(params.cfg, params.accountId);
+      await sendProactiveMessage(config, String(params.id), '✅ 配对已通过，现在可以开始对话了。', {
+        useMarkdown: false,
+      });
+    },
   },
   groups: {
-    resolveRequireMention: ({ cfg }: any): boolean => getConfig(cfg).groupPolicy !== 'open',
+    resolveRequireMention: (params: { cfg: OpenClawConfig; accountId?: string; groupId?: string }): boolean =>
+      resolveGroupRequireMention(getConfig(params.cfg, params.accountId), params.groupId),
   },
   messaging: {
     normalizeTarget: ({ target }: any) => (target ? { targetId: target.replace(/^(dingtalk|dd|ding):/i, '') } : null),
-    targetResolver: { looksLikeId: (id: string): boolean => /^[\w-]+$/.test(id), hint: '<conversationId>' },
+    targetResolver: {
+      looksLikeId: (id: string): boolean => /^[\w-]+(,[\w-]+)*$/.test(id),
+      hint: '<conversationId>|<userId,userId>',
+    },
+  },
+  actions: {
+    listActions: (): string[] => ['unsend', 'read'],
+    supportsAction: ({ action }: { action: string }): boolean => action === 'unsend' || action === 'read',
+    // unsend: recall messages by processQueryKey (messageId / messageIds), or the last one sent to the target
+    // read: read/unread recipients of a message (messageId), or the tracked messages of the target
+    handleAction: async ({
+      action,
+      params,
+      cfg,
+      accountId,
+    }: {
+      action: string;
+      params?: Record<string, unknown>;
+      cfg: OpenClawConfig;
+      accountId?: string;
+    }): Promise<{ content: Array<{ type: 'text'; text: string }>; details: unknown }> => {
+      if (action !== 'unsend' && action !== 'read') {
+        throw new Error(`[DingTalk] Unsupported action: ${action}`);
+      }
+      const config = getConfig(cfg, accountId);
+      const target = String(params?.to || params?.target || params?.chatId || '').replace(/^(dingtalk|dd|ding):/i, '');
+      if (!target) {
+        throw new Error(`[DingTalk] ${action} requires the target conversation (to)`);
+      }
+      const ids = params?.messageIds ?? params?.messageId;
+      const keys = ids === undefined || ids === null ? undefined : ([] as unknown[]).concat(ids).map(String);
+
+      if (action === 'read') {
+        const details = keys
+          ? await Promise.all(keys.map((key) => queryMessageReadStatus(config, target, key)))
+          : listTrackedReadStatuses(config.clientId).filter((entry) => entry.conversationId === target);
+        return { content: [{ type: 'text', text: JSON.stringify(details) }], details };
+      }
+
+      const result = await recallMessage(config, target, keys);
+      return { content: [{ type: 'text', text: JSON.stringify(result) }], details: result };
+    },
   },
   outbound: {
     deliveryMode: 'direct',
@@ -1956,16 +3626,49 @@ export const dingtalkPlugin = {
       }
       return { ok: true, to: trimmed };
     },
+    // `to` is a group (cid...) or one or more comma-separated user IDs, sent in batches
     sendText: async ({ cfg, to, text, accountId, log }: any) => {
       const config = getConfig(cfg, accountId);
       try {
         const result = await sendProactiveMessage(config, to, text, { log });
-        return { ok: true, data: result };
+        return { ok: true, messageId: result?.processQueryKey, data: result };
       } catch (err: any) {
         return { ok: false, error: err.response?.data || err.message };
       }
     },
-    sendMedia: async ({ cfg, to, mediaPath, accountId, log }: any) => {
+    // Payloads carrying channelData.dingtalk (actionCard / link / feedCard); anything else is sent as text and media
+    sendPayload: async ({
+      cfg,
+      to,
+      text,
+      payload,
+      accountId,
+      log,
+    }: SendPayloadParams): Promise<{ ok: boolean; messageId?: string; data?: ProactiveSendResult; error?: unknown }> => {
+      const config = getConfig(cfg, accountId);
+      try {
+        const richMessage = parseRichMessage(payload?.channelData, payload?.text || text);
+        if (richMessage) {
+          const result = await sendRichMessage(config, to, richMessage, log);
+          return { ok: true, messageId: result?.processQueryKey, data: result };
+        }
+
+        let result: ProactiveSendResult | undefined;
+        for (const mediaUrl of payload?.mediaUrls || (payload?.mediaUrl ? [payload.mediaUrl] : [])) {
+          result = await sendFileMessage(config, to, mediaUrl, log);
+        }
+        const body = payload?.text || text;
+        if (body) {
+          result = await sendProactiveMessage(config, to, body, { log });
+        }
+        return { ok: true, messageId: result?.processQueryKey, data: result };
+      } catch (err) {
+        return { ok: false, error: (axios.isAxiosError(err) && err.response?.data) || getErrorMessage(err) };
+      }
+    },
+    sendMedia: async ({ cfg, to, mediaPath: localPath, mediaUrl, accountId, log }: any) => {
+      // Either a local path or a URL (http(s), file://, data:), resolved by uploadMedia
+      const mediaPath = localPath || mediaUrl;
       log?.info?.(`[DingTalk] outbound.sendMedia called - to: ${to}, mediaPath: ${mediaPath}, accountId: ${accountId}`);
 
       const config = getConfig(cfg, accountId);
@@ -1982,7 +3685,7 @@ export const dingtalkPlugin = {
         const result = await sendFileMessage(config, to, mediaPath, log);
         log?.info?.(`[DingTalk] outbound.sendMedia - File sent successfully`);
         log?.debug?.(`[DingTalk] outbound.sendMedia - Result: ${JSON.stringify(result)}`);
-        return { ok: true, data: result };
+        return { ok: true, messageId: result.processQueryKey, data: result };
       } catch (err: any) {
         log?.error?.(`[DingTalk] outbound.sendMedia - Failed to send file`);
         log?.error?.(`[DingTalk] outbound.sendMedia - Error: ${err.message}`);
@@ -2017,10 +3720,38 @@ export const dingtalkPlugin = {
         clientId: config.clientId,
         clientSecret: config.clientSecret,
         debug: config.debug || false,
+        keepAlive: true,
+      });
+
+      const rt = getDingTalkRuntime();
+      let stopping: Promise<void> | null = null;
+
+      const supervisor = createConnectionSupervisor({
+        client,
+        accountId: account.accountId,
+        log: ctx.log,
+        baseDelayMs: config.reconnectBaseDelayMs,
+        maxDelayMs: config.reconnectMaxDelayMs,
+        heartbeatTimeoutMs: config.heartbeatTimeoutMs,
+        onStatusChange: (status) => {
+          if (!ctx.setStatus) return;
+          ctx.setStatus({
+            ...ctx.getStatus?.(),
+            ...status,
+            running: !stopping,
+          });
+        },
       });
 
       client.registerCallbackListener(TOPIC_ROBOT, async (res: any) => {
         const messageId = res.headers?.messageId;
+        if (stopping) {
+          // Leave the callback unacknowledged so DingTalk redelivers it after restart
+          ctx.log?.debug?.(`[DingTalk] Gateway stopping, ignoring callback ${messageId || 'unknown'}`);
+          return;
+        }
+        supervisor.recordMessage();
+        rt.channel.activity.record('dingtalk', account.accountId, 'inbound');
         try {
           if (messageId) {
             client.socketCallBackResponse(messageId, { success: true });
@@ -2041,56 +3772,160 @@ export const dingtalkPlugin = {
         }
       });
 
-      await client.connect();
-      if (ctx.log?.info) {
-        ctx.log.info(`[${account.accountId}] DingTalk Stream client connected`);
+      const stopReadStatusPoller = config.readStatusPollIntervalMs
+        ? startReadStatusPoller({
+            clientId: config.clientId,
+            accountId: account.accountId,
+            query: (conversationId, processQueryKey) =>
+              queryMessageReadStatus(config, conversationId, processQueryKey, ctx.log),
+            intervalMs: config.readStatusPollIntervalMs,
+            maxAgeMs: config.readStatusMaxAgeMs,
+            log: ctx.log,
+          })
+        : null;
+
+      if (config.cardCallbacks !== false) {
+        client.registerCallbackListener(TOPIC_CARD, async (res) => {
+          const messageId = res.headers?.messageId;
+          if (stopping) {
+            ctx.log?.debug?.(`[DingTalk] Gateway stopping, ignoring card callback ${messageId || 'unknown'}`);
+            return;
+          }
+          supervisor.recordMessage();
+          try {
+            if (messageId) {
+              client.socketCallBackResponse(messageId, { success: true });
+            }
+            const action = parseCardCallback(res.data, (cardBizId) => cardInstances.get(cardBizId)?.conversationId);
+            if (!action) {
+              ctx.log?.debug?.(`[DingTalk] Card callback ${messageId || 'unknown'} carries no action, ignoring`);
+              return;
+            }
+            ctx.log?.info?.(
+              `[DingTalk] Card action ${action.actionIds.join(', ') || 'submit'} on ${action.cardBizId} from ${action.userId}`
+            );
+            rt.channel.activity.record('dingtalk', account.accountId, 'inbound');
+
+            try {
+              await acknowledgeCardAction(config, action, ctx.log);
+            } catch (err) {
+              ctx.log?.warn?.(`[DingTalk] Failed to acknowledge card action: ${getErrorMessage(err)}`);
+            }
+
+            await handleDingTalkMessage({
+              cfg,
+              accountId: account.accountId,
+              data: buildCardActionMessage(action, messageId || randomUUID()),
+              sessionWebhook: '',
+              log: ctx.log,
+              dingtalkConfig: config,
+            });
+          } catch (error) {
+            ctx.log?.error?.(`[DingTalk] Error processing card callback: ${getErrorMessage(error)}`);
+          }
+        });
+      }
+
+      const connected = await supervisor.start();
+      if (!connected) {
+        ctx.log?.warn?.(`[${account.accountId}] DingTalk Stream client not connected yet, retrying in background`);
       }
-      const rt = getDingTalkRuntime();
       rt.channel.activity.record('dingtalk', account.accountId, 'start');
-      let stopped = false;
-      if (abortSignal) {
-        abortSignal.addEventListener('abort', () => {
-          if (stopped) return;
-          stopped = true;
+
+      // Stop accepting callbacks, flush merge buffers, drain in-flight replies, then close the socket
+      const shutdown = (): Promise<void> => {
+        if (stopping) return stopping;
+        stopping = (async () => {
           if (ctx.log?.info) {
             ctx.log.info(`[${account.accountId}] Stopping DingTalk Stream client...`);
           }
-          rt.channel.activity.record('dingtalk', account.accountId, 'stop');
-        });
-      }
-      return {
-        stop: () => {
-          if (stopped) return;
-          stopped = true;
-          if (ctx.log?.info) {
-            ctx.log.info(`[${account.accountId}] DingTalk provider stopped`);
+          flushMergeBuffers(account.accountId, ctx.log);
+          await waitForInflight(account.accountId, config.shutdownTimeoutMs || 10000, ctx.log);
+          flushMessageDedupStore(account.accountId, ctx.log);
+          stopReadStatusPoller?.();
+          try {
+            supervisor.stop();
+          } catch (err) {
+            ctx.log?.warn?.(`[DingTalk] Failed to disconnect stream client: ${getErrorMessage(err)}`);
           }
           rt.channel.activity.record('dingtalk', account.accountId, 'stop');
           // Clean up card cache cleanup interval
           stopCardCacheCleanup();
-        },
+          if (ctx.log?.info) {
+            ctx.log.info(`[${account.accountId}] DingTalk provider stopped`);
+          }
+        })();
+        return stopping;
+      };
+
+      if (abortSignal) {
+        abortSignal.addEventListener('abort', () => {
+          void shutdown();
+        });
+      }
+      return {
+        stop: () => shutdown(),
       };
     },
   },
   status: {
-    defaultRuntime: { accountId: 'default', running: false, lastStartAt: null, lastStopAt: null, lastError: null },
-    probe: async ({ cfg }: any) => {
-      if (!isConfigured(cfg)) return { ok: false, error: 'Not configured' };
+    defaultRuntime: {
+      accountId: 'default',
+      running: false,
+      connected: false,
+      lastStartAt: null,
+      lastStopAt: null,
+      lastError: null,
+      lastConnectedAt: null,
+      lastDisconnectedAt: null,
+      lastHeartbeatAt: null,
+      lastMessageAt: null,
+      disconnects: 0,
+      reconnectAttempts: 0,
+      sendQueueDepth: 0,
+    },
+    probe: async ({ cfg, account }: any) => {
+      const accountId = account?.accountId;
+      if (!isConfigured(cfg, accountId)) return { ok: false, error: 'Not configured' };
       try {
-        const config = getConfig(cfg);
+        const config = getConfig(cfg, accountId);
         await getAccessToken(config);
         return { ok: true, details: { clientId: config.clientId } };
       } catch (error: any) {
         return { ok: false, error: error.message };
       }
     },
-    buildChannelSummary: ({ snapshot }: any) => ({
-      configured: snapshot?.configured ?? false,
-      running: snapshot?.running ?? false,
-      lastStartAt: snapshot?.lastStartAt ?? null,
-      lastStopAt: snapshot?.lastStopAt ?? null,
-      lastError: snapshot?.lastError ?? null,
-    }),
+    buildChannelSummary: ({ account, snapshot }: any) => {
+      // Prefer the supervisor's live view; the snapshot may lag behind a dropped socket
+      const connection = snapshot?.accountId ? getConnectionStatus(snapshot.accountId) : null;
+      const dedup = snapshot?.accountId ? getMessageDedupStats(snapshot.accountId) : null;
+      const merge = snapshot?.accountId ? getMergeStats(snapshot.accountId) : null;
+      const sendQueue = getSendQueueStats(account?.config?.clientId);
+      return {
+        configured: snapshot?.configured ?? false,
+        running: snapshot?.running ?? false,
+        connected: connection?.connected ?? snapshot?.connected ?? false,
+        lastStartAt: snapshot?.lastStartAt ?? null,
+        lastStopAt: snapshot?.lastStopAt ?? null,
+        lastError: connection?.lastError ?? snapshot?.lastError ?? null,
+        lastConnectedAt: connection?.lastConnectedAt ?? snapshot?.lastConnectedAt ?? null,
+        lastDisconnectedAt: connection?.lastDisconnectedAt ?? snapshot?.lastDisconnectedAt ?? null,
+        lastHeartbeatAt: connection?.lastHeartbeatAt ?? snapshot?.lastHeartbeatAt ?? null,
+        lastMessageAt: connection?.lastMessageAt ?? snapshot?.lastMessageAt ?? null,
+        disconnects: connection?.disconnects ?? snapshot?.disconnects ?? 0,
+        reconnectAttempts: connection?.reconnectAttempts ?? snapshot?.reconnectAttempts ?? 0,
+        duplicatesDropped: dedup?.dropped ?? 0,
+        mergeBuffers: merge?.buffers ?? 0,
+        mergeBufferedMessages: merge?.bufferedMessages ?? 0,
+        mergedTurns: merge?.mergedTurns ?? 0,
+        sendQueueDepth: sendQueue.depth,
+        sendQueueConversations: sendQueue.conversations,
+        sendsThrottled: sendQueue.throttled,
+        unreadMessagesTracked: account?.config?.clientId
+          ? listTrackedReadStatuses(account.config.clientId, { unreadOnly: true }).length
+          : 0,
+      };
+    },
   },
 };
 
@@ -2102,6 +3937,8 @@ export const dingtalkPlugin = {
  * - {@link sendProactiveMessage} sends a proactive/outbound message to DingTalk
  *   without requiring an existing inbound session.
  * - {@link sendFileMessage} sends a file message to DingTalk.
+ * - {@link sendRichMessage} sends an actionCard, link or feedCard message
+ *   via the proactive API.
  * - {@link uploadMedia} uploads a media file to DingTalk and returns mediaId.
  * - {@link sendInteractiveCard} sends an interactive card to DingTalk
  *   (returns cardBizId for streaming updates).
@@ -2110,9 +3947,17 @@ export const dingtalkPlugin = {
  * - {@link updateInteractiveCardThrottled} throttled version of updateInteractiveCard
  *   with rate limiting and auto-finalization timeout (recommended for streaming).
  * - {@link sendMessage} sends a message with automatic mode selection
- *   (text/markdown/card based on config).
+ *   (text/markdown/card/aicard based on config).
+ * - {@link recallMessage} recalls (撤回) messages sent via the proactive API
+ *   by their processQueryKey.
+ * - {@link queryMessageReadStatus} returns who has (and has not) read a message
+ *   sent via the proactive API; {@link getTrackedReadStatus} returns the status
+ *   recorded by the background poller (`readStatusPollIntervalMs`).
  * - {@link getAccessToken} retrieves (and caches) the DingTalk access token
- *   for the configured application/runtime.
+ *   for the configured application, keyed by clientId/corpId.
+ * - {@link invalidateAccessToken} drops a cached token (e.g. after a 401).
+ * - {@link getAccessTokenCacheInfo} / {@link clearAccessTokenCache} inspect and
+ *   clear the per-application token cache.
  *
  * These exports are intended to be used by external integrations that need
  * direct programmatic access to DingTalk messaging and authentication.
@@ -2121,10 +3966,18 @@ export {
   sendBySession,
   sendProactiveMessage,
   sendFileMessage,
+  sendRichMessage,
   uploadMedia,
   sendInteractiveCard,
   updateInteractiveCard,
   updateInteractiveCardThrottled,
   sendMessage,
+  recallMessage,
+  queryMessageReadStatus,
+  getTrackedReadStatus,
+  listTrackedReadStatuses,
   getAccessToken,
+  invalidateAccessToken,
+  getAccessTokenCacheInfo,
+  clearAccessTokenCache,
 };
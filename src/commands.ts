@@ -0,0 +1,76 @@
+import type { DingTalkCommand, ParsedCommand } from './types';
+
+/**
+ * Native slash commands in DingTalk conversations.
+ * A message starting with the command prefix is matched against the commands below and handed to
+ * OpenClaw as its command (Chinese aliases included); `/help` is answered by the plugin itself.
+ * Anything that is not a known command goes to the agent as plain text.
+ */
+
+export const DINGTALK_COMMANDS: DingTalkCommand[] = [
+  { name: 'help', aliases: ['帮助'], description: '查看可用命令', requiresAuth: false },
+  { name: 'new', aliases: ['新对话'], description: '开始新对话', requiresAuth: true },
+  { name: 'reset', aliases: ['重置'], description: '重置当前会话', requiresAuth: true },
+  { name: 'stop', aliases: ['停止'], description: '停止正在进行的回复', requiresAuth: true },
+  { name: 'status', aliases: ['状态'], description: '查看会话状态', requiresAuth: true },
+  { name: 'model', aliases: ['模型'], description: '查看或切换模型，如 /model gpt-4o', requiresAuth: true },
+  { name: 'think', aliases: ['思考'], description: '设置思考深度，如 /think high', requiresAuth: true },
+  { name: 'compact', aliases: ['压缩'], description: '压缩会话上下文', requiresAuth: true },
+  { name: 'whoami', aliases: ['我是谁'], description: '查看自己的用户 ID 和当前会话 ID', requiresAuth: false },
+  { name: 'config', description: '查看或修改配置', requiresAuth: true, chatTypes: ['direct'] },
+];
+
+// Full-width slash typed by Chinese input methods
+const FULL_WIDTH_SLASH = '／';
+
+/**
+ * Parse a command from the command body (the message without the robot's @mention).
+ * Returns null when the text does not start with the prefix or names no known command.
+ */
+export function parseCommand(text: string, prefix: string = '/'): ParsedCommand | null {
+  let body = text.trim();
+  if (prefix === '/' && body.startsWith(FULL_WIDTH_SLASH)) {
+    body = `/${body.slice(FULL_WIDTH_SLASH.length)}`;
+  }
+  if (!prefix || !body.startsWith(prefix)) return null;
+
+  const [token = '', ...rest] = body.slice(prefix.length).split(/\s+/);
+  const name = token.toLowerCase();
+  if (!name) return null;
+
+  const command = DINGTALK_COMMANDS.find((entry) => entry.name === name || entry.aliases?.includes(name));
+  if (!command) return null;
+
+  const args = rest.join(' ').trim();
+  return {
+    command,
+    args,
+    // OpenClaw always sees the canonical English command with a slash
+    openclawText: args ? `/${command.name} ${args}` : `/${command.name}`,
+  };
+}
+
+/**
+ * Whether a command can be used in a chat type
+ */
+export function isCommandAvailable(command: DingTalkCommand, chatType: 'direct' | 'group'): boolean {
+  return !command.chatTypes || command.chatTypes.includes(chatType);
+}
+
+/**
+ * /help text: the commands the sender may use in this chat type
+ */
+export function formatCommandHelp(options: {
+  chatType: 'direct' | 'group';
+  authorized: boolean;
+  prefix?: string;
+}): string {
+  const prefix = options.prefix || '/';
+  const lines = DINGTALK_COMMANDS.filter(
+    (command) => isCommandAvailable(command, options.chatType) && (options.authorized || !command.requiresAuth)
+  ).map((command) => {
+    const aliases = command.aliases?.length ? `（${command.aliases.map((alias) => prefix + alias).join('、')}）` : '';
+    return `- ${prefix}${command.name}${aliases}：${command.description}`;
+  });
+  return ['**可用命令**', '', ...lines].join('\n');
+}
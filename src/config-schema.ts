@@ -1,5 +1,65 @@
 import { z } from 'zod';
 
+/**
+ * Per-group overrides, keyed by conversation ID in `groups` ('*' applies to all groups)
+ */
+export const DingTalkGroupConfigSchema = z.object({
+  /** Set to false to ignore messages from this group */
+  enabled: z.boolean().optional(),
+
+  /** Only answer when the robot is @mentioned */
+  requireMention: z.boolean().optional(),
+
+  /** Message type for replies in this group */
+  messageType: z.enum(['text', 'markdown', 'card', 'aicard']).optional(),
+
+  /** Show thinking indicator in this group */
+  showThinking: z.boolean().optional(),
+
+  /** Route this group to a specific agent */
+  agentId: z.string().optional(),
+});
+
+/**
+ * Markdown conversions applied before sending, to fit DingTalk's markdown renderer
+ */
+export const DingTalkMarkdownConfigSchema = z.object({
+  /** Tables: bullet rows, aligned code block, or unchanged */
+  tables: z.enum(['bullets', 'code', 'off']).optional(),
+
+  /** Render task list checkboxes as ☐ / ☑ */
+  taskLists: z.boolean().optional(),
+
+  /** Flatten nested lists into indented top-level items */
+  flattenLists: z.boolean().optional(),
+
+  /** Drop language tags from fenced code blocks */
+  stripCodeLanguage: z.boolean().optional(),
+
+  /** Escape inline HTML tags */
+  escapeHtml: z.boolean().optional(),
+});
+
+/**
+ * Inbound message merging: quick successive messages are handled as one turn
+ */
+export const DingTalkMergeConfigSchema = z.object({
+  /** Buffer quick successive messages (default true) */
+  enabled: z.boolean().optional(),
+
+  /** How long (ms) to wait for more messages after the first one (default 2000) */
+  windowMs: z.number().int().positive().optional(),
+
+  /** Handle the buffer as soon as it holds this many messages (default 5) */
+  maxMessages: z.number().int().positive().optional(),
+
+  /** Handle a message right away when it looks complete (default true) */
+  adaptive: z.boolean().optional(),
+
+  /** Buffer per sender, or per conversation (default sender) */
+  scope: z.enum(['sender', 'conversation']).optional(),
+});
+
 /**
  * DingTalk configuration schema using Zod
  * Mirrors the structure needed for proper control-ui rendering
@@ -35,14 +95,74 @@ export const DingTalkConfigSchema = z.object({
   /** List of allowed user IDs for allowlist policy */
   allowFrom: z.array(z.string()).optional(),
 
+  /** List of allowed group conversation IDs (openConversationId) for groupPolicy allowlist */
+  groupAllowFrom: z.array(z.string()).optional(),
+
+  /** Per-group sender allowlists, keyed by conversation ID */
+  groupSenderAllowFrom: z.record(z.string(), z.array(z.string())).optional(),
+
+  /** Notice sent when a group or sender is rejected by groupPolicy (empty string = silent) */
+  groupDenyMessage: z.string().optional(),
+
+  /** Per-group overrides keyed by conversation ID, with '*' as the default for all groups */
+  groups: z.record(z.string(), DingTalkGroupConfigSchema).optional(),
+
   /** Show thinking indicator while processing */
   showThinking: z.boolean().optional().default(true),
 
+  /** Send the thinking indicator as a recallable message and recall it once the answer is delivered */
+  recallThinkingMessage: z.boolean().optional().default(false),
+
+  /** Poll the read status of proactive messages at this interval (ms); 0 disables polling */
+  readStatusPollIntervalMs: z.number().int().nonnegative().optional().default(0),
+
+  /** Stop polling a message's read status this long after it was sent (ms) */
+  readStatusMaxAgeMs: z.number().int().positive().optional().default(86400000),
+
   /** Enable debug logging */
   debug: z.boolean().optional().default(false),
 
-  /** Message type for replies: text, markdown, or card */
-  messageType: z.enum(['text', 'markdown', 'card']).optional().default('markdown'),
+  /** Message type for replies: text, markdown, card, or aicard (streaming AI card, needs aiCardTemplateId) */
+  messageType: z.enum(['text', 'markdown', 'card', 'aicard']).optional().default('markdown'),
+
+  /** Max characters per outgoing message; longer replies are split into numbered parts */
+  textChunkLimit: z.number().int().positive().optional().default(4000),
+
+  /** Conversions that rewrite GitHub-flavored markdown into DingTalk's markdown dialect */
+  markdown: DingTalkMarkdownConfigSchema.optional(),
+
+  /** Merging of quick successive inbound messages into one turn */
+  merge: DingTalkMergeConfigSchema.optional(),
+
+  /** Message arriving mid-reply: queue it, interrupt the reply and answer both, or steer it into the running turn */
+  busyPolicy: z.enum(['queue', 'interrupt', 'steer']).optional().default('queue'),
+
+  /** Tell the user which busy policy was applied to their message */
+  busyAck: z.boolean().optional().default(true),
+
+  /** Handle slash commands (/help, /reset, /model ...) natively instead of passing them to the agent as text */
+  nativeCommands: z.boolean().optional().default(true),
+
+  /** Prefix that starts a command */
+  commandPrefix: z.string().optional().default('/'),
+
+  /** Sender IDs allowed to run commands; unset allows everyone who may talk to the robot */
+  commandAllowFrom: z.array(z.string()).optional(),
+
+  /** Max size (bytes) of a remote URL or data URI media file fetched for sending */
+  mediaMaxBytes: z.number().int().positive().optional().default(20971520),
+
+  /** Timeout (ms) for downloading remote media before sending, including the body transfer */
+  mediaDownloadTimeoutMs: z.number().int().positive().optional().default(30000),
+
+  /** Max outgoing messages per minute to one conversation; extra sends are queued */
+  sendRateConversationPerMinute: z.number().int().positive().optional().default(20),
+
+  /** Max outgoing API requests per second for this app (clientId) */
+  sendRateAppPerSecond: z.number().int().positive().optional().default(20),
+
+  /** Retries of a send throttled by DingTalk before it is reported as failed */
+  sendMaxRetries: z.number().int().nonnegative().optional().default(8),
 
   /** Card template ID for interactive cards (e.g., 'StandardCard') */
   cardTemplateId: z.string().optional().default('StandardCard'),
@@ -59,6 +179,45 @@ export const DingTalkConfigSchema = z.object({
     .optional()
     .default('https://api.dingtalk.com/v1.0/im/robots/interactiveCards'),
 
+  /** Subscribe to card callbacks and pass button presses / form submits to the agent */
+  cardCallbacks: z.boolean().optional().default(true),
+
+  /** callbackRouteKey sent with interactive cards, for apps that route card callbacks by key */
+  cardCallbackRouteKey: z.string().optional(),
+
+  /** Text appended to a card when one of its actions is received ({action} is replaced by the action id) */
+  cardCallbackAckText: z.string().optional(),
+
+  /** Card template ID for messageType 'aicard' (a streaming-capable template from the card platform) */
+  aiCardTemplateId: z.string().optional(),
+
+  /** Template variable the AI card answer is streamed into */
+  aiCardContentKey: z.string().optional().default('msgContent'),
+
+  /** Minimum interval (ms) between AI card streaming updates */
+  aiCardStreamIntervalMs: z.number().int().positive().optional().default(300),
+
+  /** Max time (ms) to wait for in-flight replies when the gateway stops */
+  shutdownTimeoutMs: z.number().int().positive().optional().default(10000),
+
+  /** First stream reconnect delay (ms), doubled on each failed attempt */
+  reconnectBaseDelayMs: z.number().int().positive().optional().default(1000),
+
+  /** Maximum stream reconnect delay (ms) */
+  reconnectMaxDelayMs: z.number().int().positive().optional().default(60000),
+
+  /** Reconnect when no heartbeat or message was received for this long (ms) */
+  heartbeatTimeoutMs: z.number().int().positive().optional().default(30000),
+
+  /** How long (ms) an inbound msgId is remembered to drop stream redeliveries */
+  dedupTtlMs: z.number().int().positive().optional().default(1800000),
+
+  /** Maximum number of remembered msgIds per account */
+  dedupMaxEntries: z.number().int().positive().optional().default(5000),
+
+  /** Directory to persist seen msgIds so duplicates are also dropped across restarts */
+  dedupStoreDir: z.string().optional(),
+
   /** Multi-account configuration */
   accounts: z.record(z.string(), z.unknown()).optional(),
 });
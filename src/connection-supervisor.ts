@@ -0,0 +1,205 @@
+import type { DWClient } from 'dingtalk-stream';
+import type { ConnectionStatus, Logger } from './types';
+import { getErrorMessage } from '../utils';
+
+/**
+ * Options for the stream connection supervisor
+ */
+export interface ConnectionSupervisorOptions {
+  client: DWClient;
+  accountId: string;
+  log?: Logger;
+  /** First reconnect delay, doubled on each failed attempt */
+  baseDelayMs?: number;
+  /** Upper bound for the reconnect delay */
+  maxDelayMs?: number;
+  /** Force a reconnect when neither heartbeat nor message was seen for this long */
+  heartbeatTimeoutMs?: number;
+  /** How often the connection state is checked */
+  checkIntervalMs?: number;
+  /** Called with the full status whenever it changes */
+  onStatusChange?: (status: ConnectionStatus) => void;
+}
+
+/**
+ * Supervisor handle returned by createConnectionSupervisor
+ */
+export interface ConnectionSupervisor {
+  start: () => Promise<boolean>;
+  stop: () => void;
+  recordMessage: () => void;
+  getStatus: () => ConnectionStatus;
+}
+
+// Latest connection status per account, for status reporting
+const connectionStatuses = new Map<string, ConnectionStatus>();
+
+/**
+ * Get the latest stream connection status of an account (null if never started)
+ */
+export function getConnectionStatus(accountId: string): ConnectionStatus | null {
+  const status = connectionStatuses.get(accountId);
+  return status ? { ...status } : null;
+}
+
+/**
+ * Exponential backoff with jitter: half of the delay is fixed, the other half random
+ */
+function computeBackoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  const delay = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt));
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+/**
+ * Supervise a DWClient connection.
+ * Takes over reconnecting from the SDK so retries back off exponentially, tracks
+ * heartbeats and inbound messages, and reports disconnects through onStatusChange.
+ */
+export function createConnectionSupervisor(options: ConnectionSupervisorOptions): ConnectionSupervisor {
+  const {
+    client,
+    accountId,
+    log,
+    baseDelayMs = 1000,
+    maxDelayMs = 60000,
+    heartbeatTimeoutMs = 30000,
+    checkIntervalMs = 5000,
+    onStatusChange,
+  } = options;
+
+  const status: ConnectionStatus = {
+    connected: false,
+    lastConnectedAt: null,
+    lastDisconnectedAt: null,
+    lastHeartbeatAt: null,
+    lastMessageAt: null,
+    lastError: null,
+    disconnects: 0,
+    reconnectAttempts: 0,
+  };
+
+  let stopped = false;
+  let connecting = false;
+  let attempt = 0;
+  let checkTimer: NodeJS.Timeout | null = null;
+  let reconnectTimer: NodeJS.Timeout | null = null;
+
+  const emit = (): void => {
+    connectionStatuses.set(accountId, { ...status });
+    onStatusChange?.({ ...status });
+  };
+
+  // The SDK calls heartbeat() on every pong and KEEPALIVE frame
+  const originalHeartbeat = client.heartbeat.bind(client);
+  client.heartbeat = () => {
+    originalHeartbeat();
+    status.lastHeartbeatAt = Date.now();
+  };
+
+  // Reconnecting is handled here, with backoff, instead of the SDK's fixed 1s retry loop
+  client.config.autoReconnect = false;
+
+  const connect = async (): Promise<boolean> => {
+    connecting = true;
+    try {
+      // DWClient.connect() swallows its own errors, so check the connected flag afterwards
+      await client.connect();
+    } catch (err) {
+      status.lastError = getErrorMessage(err);
+    } finally {
+      connecting = false;
+    }
+
+    if (stopped) {
+      client.disconnect();
+      return false;
+    }
+
+    if (client.connected) {
+      const now = Date.now();
+      attempt = 0;
+      status.connected = true;
+      status.lastConnectedAt = now;
+      status.lastHeartbeatAt = now;
+      status.lastError = null;
+      log?.info?.(`[${accountId}] DingTalk Stream client connected`);
+      emit();
+      return true;
+    }
+
+    status.lastError = status.lastError || 'Failed to connect to DingTalk stream gateway';
+    emit();
+    return false;
+  };
+
+  const scheduleReconnect = (): void => {
+    if (stopped || reconnectTimer) return;
+
+    const delay = computeBackoffDelay(attempt, baseDelayMs, maxDelayMs);
+    attempt++;
+    status.reconnectAttempts++;
+    log?.info?.(`[${accountId}] Reconnecting DingTalk Stream client in ${delay}ms (attempt ${attempt})`);
+    emit();
+
+    reconnectTimer = setTimeout(async () => {
+      reconnectTimer = null;
+      const ok = await connect();
+      if (!ok) scheduleReconnect();
+    }, delay);
+  };
+
+  const handleDisconnect = (reason: string): void => {
+    status.connected = false;
+    status.disconnects++;
+    status.lastDisconnectedAt = Date.now();
+    status.lastError = reason;
+    log?.warn?.(`[${accountId}] DingTalk Stream connection lost: ${reason}`);
+    emit();
+
+    // Make sure a half-open socket is closed before opening a new one
+    try {
+      client.disconnect();
+    } catch {}
+    scheduleReconnect();
+  };
+
+  const check = (): void => {
+    if (stopped || connecting || reconnectTimer) return;
+
+    if (!client.connected) {
+      if (status.connected) handleDisconnect('Stream socket closed');
+      else scheduleReconnect();
+      return;
+    }
+
+    const lastSeen = Math.max(status.lastHeartbeatAt || 0, status.lastMessageAt || 0);
+    if (Date.now() - lastSeen > heartbeatTimeoutMs) {
+      handleDisconnect(`No heartbeat for ${Math.round((Date.now() - lastSeen) / 1000)}s`);
+    }
+  };
+
+  return {
+    start: async () => {
+      stopped = false;
+      emit();
+      const ok = await connect();
+      checkTimer = setInterval(check, checkIntervalMs);
+      if (!ok) scheduleReconnect();
+      return ok;
+    },
+    stop: () => {
+      stopped = true;
+      if (checkTimer) clearInterval(checkTimer);
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      checkTimer = null;
+      reconnectTimer = null;
+      client.disconnect();
+      status.connected = false;
+      emit();
+    },
+    recordMessage: () => {
+      status.lastMessageAt = Date.now();
+    },
+    getStatus: () => ({ ...status }),
+  };
+}
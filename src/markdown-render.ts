@@ -0,0 +1,158 @@
+import type { MarkdownRenderOptions } from './types';
+
+/**
+ * Rewrite GitHub-flavored markdown into the subset DingTalk's markdown renderer handles.
+ *
+ * DingTalk does not render tables, task lists or nested lists, shows fence language
+ * tags as text and drops inline HTML. Content inside fenced code blocks is left untouched
+ * (apart from the language tag).
+ */
+
+const DEFAULT_RENDER_OPTIONS: Required<MarkdownRenderOptions> = {
+  tables: 'bullets',
+  taskLists: true,
+  flattenLists: true,
+  stripCodeLanguage: true,
+  escapeHtml: true,
+};
+
+const FENCE_RE = /^(\s*)(`{3,}|~{3,})(.*)$/;
+const TABLE_SEPARATOR_RE = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+const LIST_ITEM_RE = /^(\s*)([-*+]|\d+[.)])\s+(.*)$/;
+const TASK_ITEM_RE = /^\[([ xX])\]\s+(.*)$/;
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, '|'));
+}
+
+// Display width, counting CJK and other wide characters as two columns
+function displayWidth(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    width += /[\u1100-\u115f\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]/.test(char)
+      ? 2
+      : 1;
+  }
+  return width;
+}
+
+function renderTable(header: string[], rows: string[][], mode: 'bullets' | 'code'): string[] {
+  if (mode === 'code') {
+    const columns = Math.max(header.length, ...rows.map((row) => row.length));
+    const widths = Array.from({ length: columns }, (_, col) =>
+      Math.max(...[header, ...rows].map((row) => displayWidth(row[col] || '')))
+    );
+    const formatRow = (row: string[]): string =>
+      widths
+        .map((width, col) => {
+          const cell = row[col] || '';
+          return cell + ' '.repeat(width - displayWidth(cell));
+        })
+        .join('  ')
+        .trimEnd();
+
+    return [
+      '```',
+      formatRow(header),
+      widths.map((width) => '-'.repeat(width)).join('  '),
+      ...rows.map(formatRow),
+      '```',
+    ];
+  }
+
+  // bullets: one item per row, first column as the item label
+  return rows.map((row) => {
+    const [first, ...rest] = row;
+    const details = rest
+      .map((cell, index) => (cell ? `${header[index + 1] ? `${header[index + 1]}: ` : ''}${cell}` : ''))
+      .filter(Boolean);
+    const label = first ? `**${first}**` : '';
+    return `- ${[label, details.join(' · ')].filter(Boolean).join(' — ')}`;
+  });
+}
+
+function escapeInlineHtml(line: string): string {
+  // Leave inline code spans alone
+  return line
+    .split(/(`[^`]*`)/)
+    .map((part, index) => (index % 2 === 1 ? part : part.replace(/<(?=[a-zA-Z/!])/g, '&lt;')))
+    .join('');
+}
+
+/**
+ * Convert GFM text to DingTalk-compatible markdown
+ */
+export function renderDingTalkMarkdown(text: string, options: MarkdownRenderOptions = {}): string {
+  const opts = { ...DEFAULT_RENDER_OPTIONS, ...options };
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const output: string[] = [];
+  // Indentation of each open list level, used to compute the nesting depth
+  let listIndents: number[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    // Fenced code: copy through verbatim until the closing fence
+    const fenceMatch = line.match(FENCE_RE);
+    if (fenceMatch) {
+      const [, indent, fence, info] = fenceMatch;
+      output.push(opts.stripCodeLanguage && info.trim() ? `${indent}${fence}` : line);
+      while (++i < lines.length) {
+        output.push(lines[i]);
+        const trimmed = lines[i].trim();
+        if (trimmed.length >= fence.length && trimmed === fence[0].repeat(trimmed.length)) break;
+      }
+      listIndents = [];
+      continue;
+    }
+
+    // Tables: header row followed by a separator row
+    const nextLine = lines[i + 1] || '';
+    if (opts.tables !== 'off' && line.includes('|') && nextLine.includes('|') && TABLE_SEPARATOR_RE.test(nextLine)) {
+      const header = splitTableRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes('|') && lines[i].trim() !== '') {
+        rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+      i--;
+      output.push(...renderTable(header, rows, opts.tables));
+      listIndents = [];
+      continue;
+    }
+
+    let result = line;
+    const listMatch = line.match(LIST_ITEM_RE);
+    if (listMatch) {
+      const [, indent, marker, rest] = listMatch;
+      let item = rest;
+
+      if (opts.taskLists) {
+        const taskMatch = item.match(TASK_ITEM_RE);
+        if (taskMatch) item = `${taskMatch[1] === ' ' ? '☐' : '☑'} ${taskMatch[2]}`;
+      }
+
+      if (opts.flattenLists) {
+        while (listIndents.length > 0 && indent.length <= listIndents[listIndents.length - 1]) {
+          listIndents.pop();
+        }
+        const depth = listIndents.length;
+        listIndents.push(indent.length);
+        // Nested items become top-level items, with full-width spaces to keep the visual hierarchy
+        result = depth > 0 ? `- ${'\u3000'.repeat(depth)}◦ ${item}` : `${marker} ${item}`;
+      } else {
+        result = `${indent}${marker} ${item}`;
+      }
+    } else if (line.trim() === '' || !/^\s/.test(line)) {
+      listIndents = [];
+    }
+
+    output.push(opts.escapeHtml ? escapeInlineHtml(result) : result);
+  }
+
+  return output.join('\n');
+}
@@ -0,0 +1,271 @@
+import { execFile } from 'node:child_process';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { getErrorMessage } from '../utils';
+import type { Logger, MediaMessageWebhookResponse, OutboundMedia, OutboundMediaType } from './types';
+
+/**
+ * Outbound media dispatch: pick the native DingTalk message type (image, voice, video)
+ * for a file and build the proactive API / session webhook message bodies for it.
+ */
+
+const IMAGE_EXTS = ['jpg', 'jpeg', 'png', 'gif', 'bmp'];
+const VOICE_EXTS = ['amr', 'mp3', 'wav'];
+const VIDEO_EXTS = ['mp4'];
+
+// Time allowed for ffmpeg to grab a cover frame
+const COVER_EXTRACT_TIMEOUT_MS = 15000;
+
+function getFileExt(filePath: string): string {
+  return path.basename(filePath).split('.').pop()?.toLowerCase() || '';
+}
+
+/**
+ * Map a file to the DingTalk media type it should be uploaded and sent as
+ */
+export function resolveMediaType(filePath: string): OutboundMediaType {
+  const fileExt = getFileExt(filePath);
+  if (IMAGE_EXTS.includes(fileExt)) return 'image';
+  if (VOICE_EXTS.includes(fileExt)) return 'voice';
+  if (VIDEO_EXTS.includes(fileExt)) return 'video';
+  return 'file';
+}
+
+function readBytes(fd: number, position: number, length: number): Buffer {
+  const buffer = Buffer.alloc(length);
+  const bytesRead = fs.readSync(fd, buffer, 0, length, position);
+  return buffer.subarray(0, bytesRead);
+}
+
+// WAV: data chunk size divided by the byte rate from the fmt chunk
+function getWavDurationMs(fd: number, fileSize: number): number | undefined {
+  let byteRate = 0;
+  let offset = 12;
+  while (offset + 8 <= fileSize) {
+    const header = readBytes(fd, offset, 8);
+    const chunkId = header.toString('ascii', 0, 4);
+    const chunkSize = header.readUInt32LE(4);
+    if (chunkId === 'fmt ') {
+      byteRate = readBytes(fd, offset + 8, 16).readUInt32LE(8);
+    } else if (chunkId === 'data') {
+      return byteRate > 0 ? Math.round((chunkSize / byteRate) * 1000) : undefined;
+    }
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+  return undefined;
+}
+
+// AMR-NB frame sizes (including the frame header byte) by frame type; each frame is 20ms
+const AMR_FRAME_SIZES = [13, 14, 16, 18, 20, 21, 27, 32, 6, 1, 1, 1, 1, 1, 1, 1];
+
+// AMR files are scanned in blocks of this size, so memory use does not grow with the file
+const AMR_READ_BLOCK_SIZE = 64 * 1024;
+
+function getAmrDurationMs(fd: number, fileSize: number): number | undefined {
+  const magic = '#!AMR\n';
+  if (readBytes(fd, 0, magic.length).toString('ascii') !== magic) return undefined;
+
+  let frames = 0;
+  let offset = magic.length;
+  while (offset < fileSize) {
+    const block = readBytes(fd, offset, Math.min(AMR_READ_BLOCK_SIZE, fileSize - offset));
+    if (block.length === 0) break;
+    // A frame may run past the end of the block; the next block then starts at the following frame
+    let position = 0;
+    for (; position < block.length; frames++) {
+      position += AMR_FRAME_SIZES[(block[position] >> 3) & 0x0f];
+    }
+    offset += position;
+  }
+  return frames * 20;
+}
+
+// MPEG-1 Layer III bitrates (kbps) by header index
+const MP3_BITRATES = [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320];
+
+// MP3: estimated from the first frame's bitrate (exact for CBR, close enough for VBR)
+function getMp3DurationMs(fd: number, fileSize: number): number | undefined {
+  let offset = 0;
+  const id3 = readBytes(fd, 0, 10);
+  if (id3.toString('ascii', 0, 3) === 'ID3') {
+    offset = 10 + (((id3[6] & 0x7f) << 21) | ((id3[7] & 0x7f) << 14) | ((id3[8] & 0x7f) << 7) | (id3[9] & 0x7f));
+  }
+
+  const header = readBytes(fd, offset, 4096);
+  for (let i = 0; i + 2 < header.length; i++) {
+    if (header[i] === 0xff && (header[i + 1] & 0xe0) === 0xe0) {
+      const bitrate = MP3_BITRATES[(header[i + 2] >> 4) & 0x0f];
+      if (bitrate) return Math.round(((fileSize - offset - i) * 8) / bitrate);
+    }
+  }
+  return undefined;
+}
+
+// Read the header of the box at `offset`; null when it is malformed or runs past `end`
+function readBoxHeader(
+  fd: number,
+  offset: number,
+  end: number
+): { type: string; size: number; headerSize: number } | null {
+  const header = readBytes(fd, offset, 16);
+  if (header.length < 8) return null;
+  let size = header.readUInt32BE(0);
+  const type = header.toString('ascii', 4, 8);
+  let headerSize = 8;
+  if (size === 1) {
+    if (header.length < 16) return null;
+    size = Number(header.readBigUInt64BE(8));
+    headerSize = 16;
+  } else if (size === 0) {
+    size = end - offset;
+  }
+  if (size < headerSize || offset + size > end) return null;
+  return { type, size, headerSize };
+}
+
+// MP4: duration and timescale from the mvhd box inside moov. Boxes are walked header by header,
+// so only the few bytes of mvhd are read, however large moov is.
+function getMp4DurationMs(fd: number, fileSize: number): number | undefined {
+  let offset = 0;
+  let end = fileSize;
+  while (offset + 8 <= end) {
+    const box = readBoxHeader(fd, offset, end);
+    if (!box) return undefined;
+
+    if (box.type === 'moov') {
+      end = offset + box.size;
+      offset += box.headerSize;
+      continue;
+    }
+    if (box.type === 'mvhd') {
+      // version (1 byte), flags (3), then 32-bit (version 0) or 64-bit (version 1) times
+      const mvhd = readBytes(fd, offset + box.headerSize, 32);
+      const version = mvhd[0];
+      if (mvhd.length < (version === 1 ? 32 : 20)) return undefined;
+      const timescale = mvhd.readUInt32BE(version === 1 ? 20 : 12);
+      const duration = version === 1 ? Number(mvhd.readBigUInt64BE(24)) : mvhd.readUInt32BE(16);
+      return timescale > 0 ? Math.round((duration / timescale) * 1000) : undefined;
+    }
+    offset += box.size;
+  }
+  return undefined;
+}
+
+/**
+ * Read the playback duration of an audio or video file from its headers (undefined if unknown)
+ */
+export function getMediaDurationMs(filePath: string, log?: Logger): number | undefined {
+  const fileExt = getFileExt(filePath);
+  let fd: number | undefined;
+  try {
+    fd = fs.openSync(filePath, 'r');
+    const fileSize = fs.fstatSync(fd).size;
+    switch (fileExt) {
+      case 'wav':
+        return getWavDurationMs(fd, fileSize);
+      case 'amr':
+        return getAmrDurationMs(fd, fileSize);
+      case 'mp3':
+        return getMp3DurationMs(fd, fileSize);
+      case 'mp4':
+        return getMp4DurationMs(fd, fileSize);
+      default:
+        return undefined;
+    }
+  } catch (err) {
+    log?.debug?.(`[DingTalk] Failed to read media duration of ${filePath}: ${getErrorMessage(err)}`);
+    return undefined;
+  } finally {
+    if (fd !== undefined) fs.closeSync(fd);
+  }
+}
+
+/**
+ * Find a cover image for a video: an image next to it with the same name, otherwise
+ * the first frame grabbed with ffmpeg (if installed). Returns null when neither works.
+ */
+export async function resolveVideoCover(
+  videoPath: string,
+  log?: Logger
+): Promise<{ path: string; temporary: boolean } | null> {
+  const base = videoPath.slice(0, videoPath.length - path.extname(videoPath).length);
+  for (const ext of ['jpg', 'jpeg', 'png']) {
+    if (fs.existsSync(`${base}.${ext}`)) {
+      return { path: `${base}.${ext}`, temporary: false };
+    }
+  }
+
+  // Same naming as downloaded media so cleanupOrphanedTempFiles picks up leftovers
+  const coverPath = path.join(os.tmpdir(), `dingtalk_${Date.now()}.jpg`);
+  const extracted = await new Promise<boolean>((resolve) => {
+    execFile(
+      'ffmpeg',
+      ['-y', '-loglevel', 'error', '-i', videoPath, '-frames:v', '1', '-vf', 'scale=640:-2', coverPath],
+      { timeout: COVER_EXTRACT_TIMEOUT_MS },
+      (err) => {
+        if (err) log?.debug?.(`[DingTalk] Could not extract video cover with ffmpeg: ${err.message}`);
+        resolve(!err && fs.existsSync(coverPath));
+      }
+    );
+  });
+
+  return extracted ? { path: coverPath, temporary: true } : null;
+}
+
+/**
+ * Build the proactive API (robot/oToMessages, robot/groupMessages) msgKey and msgParam for a media message
+ */
+export function buildProactiveMediaMessage(media: OutboundMedia): { msgKey: string; msgParam: string } {
+  switch (media.type) {
+    case 'image':
+      return { msgKey: 'sampleImageMsg', msgParam: JSON.stringify({ photoURL: media.mediaId }) };
+    case 'voice':
+      return {
+        msgKey: 'sampleAudio',
+        msgParam: JSON.stringify({ mediaId: media.mediaId, duration: String(media.durationMs) }),
+      };
+    case 'video':
+      return {
+        msgKey: 'sampleVideo',
+        msgParam: JSON.stringify({
+          videoMediaId: media.mediaId,
+          videoType: media.fileType,
+          duration: String(Math.max(1, Math.round((media.durationMs || 0) / 1000))),
+          picMediaId: media.coverMediaId,
+        }),
+      };
+    default:
+      return {
+        msgKey: 'sampleFile',
+        msgParam: JSON.stringify({ fileName: media.fileName, mediaId: media.mediaId, fileType: media.fileType }),
+      };
+  }
+}
+
+/**
+ * Build the session webhook message body for a media message
+ */
+export function buildWebhookMediaMessage(media: OutboundMedia): MediaMessageWebhookResponse {
+  switch (media.type) {
+    case 'image':
+      return { msgtype: 'image', image: { mediaId: media.mediaId } };
+    case 'voice':
+      return { msgtype: 'audio', audio: { mediaId: media.mediaId, duration: String(media.durationMs) } };
+    case 'video':
+      return {
+        msgtype: 'video',
+        video: {
+          videoMediaId: media.mediaId,
+          videoType: media.fileType,
+          duration: String(Math.max(1, Math.round((media.durationMs || 0) / 1000))),
+          picMediaId: media.coverMediaId,
+        },
+      };
+    default:
+      return {
+        msgtype: 'file',
+        file: { fileName: media.fileName, mediaId: media.mediaId, fileType: media.fileType },
+      };
+  }
+}
@@ -0,0 +1,234 @@
+import axios from 'axios';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as os from 'node:os';
+import { pipeline } from 'node:stream/promises';
+import { Transform } from 'node:stream';
+import { fileURLToPath } from 'node:url';
+import { resolveMediaType } from './media-message';
+import type { Logger, MediaSourceOptions, OutboundMediaType, ResolvedMediaSource } from './types';
+
+/**
+ * Resolve the media references agents return (local paths, file:// URIs, http(s) URLs
+ * and data URIs) into local files that can be uploaded to DingTalk.
+ *
+ * Remote and inline content is written to os.tmpdir() as `dingtalk_<digits>.<ext>`,
+ * the pattern cleanupOrphanedTempFiles removes if a crash leaves files behind.
+ */
+
+export const DEFAULT_MEDIA_MAX_BYTES = 20 * 1024 * 1024;
+export const DEFAULT_MEDIA_DOWNLOAD_TIMEOUT_MS = 30000;
+
+// Content types of web pages: usually an error or login page instead of the file
+const PAGE_CONTENT_TYPES = ['text/html', 'application/xhtml+xml'];
+
+// Content types that say nothing about the content, so any media type is accepted
+const GENERIC_CONTENT_TYPES = ['', 'application/octet-stream', 'binary/octet-stream'];
+
+// Content type prefixes each media type accepts; files accept anything but a web page
+const MEDIA_CONTENT_TYPE_PREFIXES: Record<OutboundMediaType, string[]> = {
+  image: ['image/'],
+  voice: ['audio/'],
+  video: ['video/'],
+  file: [],
+};
+
+const CONTENT_TYPE_EXTS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/bmp': 'bmp',
+  'image/webp': 'webp',
+  'audio/amr': 'amr',
+  'audio/mpeg': 'mp3',
+  'audio/mp3': 'mp3',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'video/mp4': 'mp4',
+  'application/pdf': 'pdf',
+  'application/zip': 'zip',
+  'application/msword': 'doc',
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.ms-excel': 'xls',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/vnd.ms-powerpoint': 'ppt',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx',
+  'text/plain': 'txt',
+  'text/csv': 'csv',
+  'application/json': 'json',
+};
+
+let tempFileCounter = 0;
+
+// Unique temp file name matching cleanupOrphanedTempFiles' /^dingtalk_\d+\..+$/
+function createTempFilePath(ext: string): string {
+  tempFileCounter = (tempFileCounter + 1) % 1000;
+  const id = `${Date.now()}${String(process.pid).padStart(6, '0')}${String(tempFileCounter).padStart(3, '0')}`;
+  return path.join(os.tmpdir(), `dingtalk_${id}.${ext}`);
+}
+
+function normalizeContentType(contentType?: string): string {
+  return (contentType || '').split(';')[0].trim().toLowerCase();
+}
+
+function assertContentTypeMatches(contentType: string, mediaType: OutboundMediaType, fileName: string): void {
+  if (GENERIC_CONTENT_TYPES.includes(contentType)) return;
+  const prefixes = MEDIA_CONTENT_TYPE_PREFIXES[mediaType];
+  const matches =
+    prefixes.length > 0
+      ? prefixes.some((prefix) => contentType.startsWith(prefix))
+      : !PAGE_CONTENT_TYPES.includes(contentType) || /\.x?html?$/i.test(fileName);
+  if (!matches) {
+    throw new Error(`[DingTalk] Media returned ${contentType}, which is not ${mediaType} content`);
+  }
+}
+
+// Extension from the URL path if it has one, otherwise from the content type
+function resolveExt(fileName: string, contentType: string): string {
+  const ext = path.extname(fileName).slice(1).toLowerCase();
+  if (/^[a-z0-9]{1,8}$/.test(ext)) return ext;
+  return CONTENT_TYPE_EXTS[contentType] || 'bin';
+}
+
+function removeFile(filePath: string): Promise<void> {
+  return fs.promises.unlink(filePath).catch(() => {});
+}
+
+async function downloadToTempFile(
+  url: string,
+  maxBytes: number,
+  timeoutMs: number,
+  mediaType: OutboundMediaType | undefined,
+  log?: Logger
+): Promise<ResolvedMediaSource> {
+  let urlFileName = '';
+  try {
+    urlFileName = decodeURIComponent(path.basename(new URL(url).pathname));
+  } catch {}
+
+  // axios' timeout stops at the response headers; this one also bounds streaming the body
+  const controller = new AbortController();
+  const deadline = setTimeout(() => controller.abort(), timeoutMs);
+  let filePath: string | undefined;
+  let received = 0;
+  let contentType = '';
+
+  try {
+    const response = await axios.get(url, {
+      responseType: 'stream',
+      timeout: timeoutMs,
+      maxRedirects: 5,
+      signal: controller.signal,
+    });
+    contentType = normalizeContentType(String(response.headers['content-type'] || ''));
+    const declaredSize = Number(response.headers['content-length'] || 0);
+
+    try {
+      // Without an explicit type, the URL's extension tells what the content should be
+      assertContentTypeMatches(contentType, mediaType || resolveMediaType(urlFileName), urlFileName);
+      if (declaredSize > maxBytes) {
+        throw new Error(`[DingTalk] Media at ${url} is ${declaredSize} bytes, over the ${maxBytes} byte limit`);
+      }
+    } catch (err) {
+      response.data.destroy();
+      throw err;
+    }
+
+    filePath = createTempFilePath(resolveExt(urlFileName, contentType));
+
+    // Servers may omit or understate content-length, so count bytes while streaming
+    const sizeGuard = new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        received += chunk.length;
+        if (received > maxBytes) {
+          callback(new Error(`[DingTalk] Media at ${url} exceeds the ${maxBytes} byte limit`));
+        } else {
+          callback(null, chunk);
+        }
+      },
+    });
+
+    await pipeline(response.data, sizeGuard, fs.createWriteStream(filePath), { signal: controller.signal });
+  } catch (err) {
+    if (filePath) await removeFile(filePath);
+    if (controller.signal.aborted) {
+      throw new Error(`[DingTalk] Downloading media from ${url} timed out after ${timeoutMs}ms`);
+    }
+    throw err;
+  } finally {
+    clearTimeout(deadline);
+  }
+
+  log?.debug?.(
+    `[DingTalk] Downloaded media ${url} -> ${filePath} (${received} bytes, ${contentType || 'unknown type'})`
+  );
+  return {
+    path: filePath,
+    fileName: path.extname(urlFileName) ? urlFileName : path.basename(filePath),
+    contentType: contentType || undefined,
+    temporary: true,
+  };
+}
+
+async function writeDataUri(
+  uri: string,
+  maxBytes: number,
+  mediaType: OutboundMediaType | undefined
+): Promise<ResolvedMediaSource> {
+  const match = uri.match(/^data:([^,]*?),(.*)$/s);
+  if (!match) {
+    throw new Error('[DingTalk] Malformed data URI');
+  }
+
+  const [, meta, payload] = match;
+  const isBase64 = /;base64$/i.test(meta);
+  const contentType = normalizeContentType(meta.replace(/;base64$/i, '')) || 'application/octet-stream';
+  assertContentTypeMatches(contentType, mediaType || 'file', '');
+
+  // Check the decoded size before allocating the buffer
+  const estimatedSize = isBase64 ? Math.floor((payload.length * 3) / 4) : payload.length;
+  if (estimatedSize > maxBytes) {
+    throw new Error(`[DingTalk] Data URI content exceeds the ${maxBytes} byte limit`);
+  }
+
+  const data = isBase64 ? Buffer.from(payload, 'base64') : Buffer.from(decodeURIComponent(payload), 'utf8');
+  const filePath = createTempFilePath(resolveExt('', contentType));
+  await fs.promises.writeFile(filePath, data);
+
+  return { path: filePath, fileName: path.basename(filePath), contentType, temporary: true };
+}
+
+/**
+ * Resolve a media reference to a local file.
+ * Temporary files (downloads, data URIs) must be removed with releaseMediaSource once uploaded.
+ */
+export async function resolveMediaSource(
+  mediaRef: string,
+  options: MediaSourceOptions = {},
+  log?: Logger
+): Promise<ResolvedMediaSource> {
+  const maxBytes = options.maxBytes || DEFAULT_MEDIA_MAX_BYTES;
+  const timeoutMs = options.timeoutMs || DEFAULT_MEDIA_DOWNLOAD_TIMEOUT_MS;
+  const ref = mediaRef.trim();
+
+  if (/^https?:\/\//i.test(ref)) {
+    log?.info?.(`[DingTalk] Downloading remote media: ${ref}`);
+    return downloadToTempFile(ref, maxBytes, timeoutMs, options.mediaType, log);
+  }
+
+  if (/^data:/i.test(ref)) {
+    return writeDataUri(ref, maxBytes, options.mediaType);
+  }
+
+  const localPath = /^file:\/\//i.test(ref) ? fileURLToPath(ref) : ref;
+  return { path: localPath, fileName: path.basename(localPath), temporary: false };
+}
+
+/**
+ * Remove the temp file behind a resolved media source (no-op for local files)
+ */
+export async function releaseMediaSource(source: ResolvedMediaSource, log?: Logger): Promise<void> {
+  if (!source.temporary) return;
+  await removeFile(source.path);
+  log?.debug?.(`[DingTalk] Removed temp media file: ${source.path}`);
+}
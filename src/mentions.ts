@@ -0,0 +1,111 @@
+import type { DingTalkInboundMessage, InboundMention, RichTextComponent } from './types';
+
+/**
+ * Inbound @mentions.
+ * Plain text messages list mentioned users in `atUsers` (ids only, the names are in the text);
+ * rich text messages carry `at` components with id and name. Both are turned into one list, with
+ * the robot's own mention flagged so group mention checks and the command body can rely on it.
+ */
+
+const AT_ALL_NAMES = ['所有人', 'all', 'everyone'];
+
+// @name tokens of a plain text message, in order
+const MENTION_TOKEN_PATTERN = /@([^\s@]+)/g;
+
+function isAtAllName(name?: string): boolean {
+  return !!name && AT_ALL_NAMES.includes(name.toLowerCase());
+}
+
+function mentionKey(mention: InboundMention): string {
+  if (mention.isAtAll) return '@all';
+  return mention.userId || mention.staffId || `name:${mention.name || ''}`;
+}
+
+/**
+ * Merge mention lists, keeping the first entry per user (and a single @所有人)
+ */
+export function mergeMentions(lists: Array<InboundMention[] | undefined>): InboundMention[] {
+  const merged = new Map<string, InboundMention>();
+  for (const mention of lists.flatMap((list) => list || [])) {
+    const key = mentionKey(mention);
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...mention });
+    } else {
+      existing.name ??= mention.name;
+      existing.staffId ??= mention.staffId;
+    }
+  }
+  return [...merged.values()];
+}
+
+/**
+ * @mentions of an inbound message. `richTextParts` are the message's rich text components, if any.
+ */
+export function parseMentions(data: DingTalkInboundMessage, richTextParts: RichTextComponent[] = []): InboundMention[] {
+  const botId = data.chatbotUserId;
+  const mentions: InboundMention[] = [];
+
+  for (const part of richTextParts) {
+    if (part.type !== 'at') continue;
+    const isAtAll = isAtAllName(part.atName) || part.isAtAll === true;
+    mentions.push({
+      userId: isAtAll ? undefined : part.atUserId,
+      name: part.atName,
+      isBot: !!botId && part.atUserId === botId,
+      isAtAll,
+    });
+  }
+
+  const atUsers = Array.isArray(data.atUsers) ? data.atUsers.filter((user) => user?.dingtalkId) : [];
+  // DingTalk leaves the robot's own @ out of the text, so the remaining @name tokens line up with
+  // the other users in atUsers. Names are only filled in when the counts match.
+  const text = data.msgtype === 'text' ? data.text?.content || '' : '';
+  const tokens = [...text.matchAll(MENTION_TOKEN_PATTERN)].map((match) => match[1]);
+  const tokenNames = tokens.filter((name) => !isAtAllName(name));
+  const otherUsers = atUsers.filter((user) => user.dingtalkId !== botId);
+  const namesMatch = tokenNames.length === otherUsers.length;
+
+  for (const user of atUsers) {
+    const isBot = !!botId && user.dingtalkId === botId;
+    mentions.push({
+      userId: user.dingtalkId,
+      staffId: user.staffId,
+      name: !isBot && namesMatch ? tokenNames[otherUsers.indexOf(user)] : undefined,
+      isBot,
+      isAtAll: false,
+    });
+  }
+
+  if (tokens.length > tokenNames.length) {
+    mentions.push({ name: '所有人', isBot: false, isAtAll: true });
+  }
+
+  return mergeMentions([mentions]);
+}
+
+/**
+ * Text without the robot's own @mentions, for the command body
+ */
+export function stripBotMentions(text: string, mentions: InboundMention[]): string {
+  let stripped = text;
+  for (const mention of mentions) {
+    if (!mention.isBot || !mention.name) continue;
+    stripped = stripped.split(`@${mention.name}`).join('');
+  }
+  return stripped.replace(/[ \t]{2,}/g, ' ').trim();
+}
+
+/**
+ * Line listing the other users mentioned, so the agent can @ them back by ID
+ */
+export function formatMentionsLine(mentions: InboundMention[]): string {
+  const others = mentions.filter((mention) => !mention.isBot);
+  if (others.length === 0) return '';
+  const labels = others.map((mention) => {
+    if (mention.isAtAll) return '@所有人';
+    const id = mention.staffId || mention.userId;
+    return mention.name ? `@${mention.name} (${id})` : `@${id}`;
+  });
+  return `[提及: ${labels.join(', ')}]`;
+}
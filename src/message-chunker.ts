@@ -0,0 +1,185 @@
+/**
+ * Split long outgoing messages into parts that fit DingTalk's message size limit.
+ *
+ * Splits on paragraph, list item and line boundaries, and never cuts a fenced code
+ * block without closing it and re-opening it (with the same language) in the next part.
+ */
+
+export const DEFAULT_TEXT_CHUNK_LIMIT = 4000;
+
+// Room reserved for the "(n/m)" part marker
+const PART_MARKER_RESERVE = 12;
+
+const FENCE_OPEN_RE = /^\s*(`{3,}|~{3,})(.*)$/;
+
+interface TextUnit {
+  text: string;
+  // Separator used when this unit is packed after the previous one
+  joiner: string;
+}
+
+interface ParsedBlock {
+  kind: 'text' | 'code';
+  lines: string[];
+}
+
+function isClosingFence(line: string, fence: string): boolean {
+  const trimmed = line.trim();
+  return trimmed.length >= fence.length && trimmed === fence[0].repeat(trimmed.length);
+}
+
+// Group lines into paragraphs (separated by blank lines) and fenced code blocks
+function parseBlocks(text: string): ParsedBlock[] {
+  const lines = text.replace(/\r\n/g, '\n').split('\n');
+  const blocks: ParsedBlock[] = [];
+  let current: string[] = [];
+
+  const flush = (): void => {
+    if (current.length > 0) {
+      blocks.push({ kind: 'text', lines: current });
+      current = [];
+    }
+  };
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const fenceMatch = line.match(FENCE_OPEN_RE);
+
+    if (fenceMatch) {
+      flush();
+      const fence = fenceMatch[1];
+      const codeLines = [line];
+      while (++i < lines.length) {
+        codeLines.push(lines[i]);
+        if (isClosingFence(lines[i], fence)) break;
+      }
+      blocks.push({ kind: 'code', lines: codeLines });
+      continue;
+    }
+
+    if (line.trim() === '') {
+      flush();
+      continue;
+    }
+
+    current.push(line);
+  }
+  flush();
+
+  return blocks;
+}
+
+// Split a single over-long line, preferring sentence ends, then whitespace
+function splitLongLine(line: string, limit: number): string[] {
+  const pieces: string[] = [];
+  let rest = line;
+
+  while (rest.length > limit) {
+    const window = rest.slice(0, limit);
+    let cut = Math.max(
+      window.lastIndexOf('。'),
+      window.lastIndexOf('！'),
+      window.lastIndexOf('？'),
+      window.lastIndexOf('；'),
+      window.lastIndexOf('. '),
+      window.lastIndexOf('! '),
+      window.lastIndexOf('? ')
+    );
+    if (cut < limit / 2) cut = window.lastIndexOf(' ');
+    if (cut < limit / 2) cut = limit - 1;
+
+    pieces.push(rest.slice(0, cut + 1).trimEnd());
+    rest = rest.slice(cut + 1).trimStart();
+  }
+  if (rest) pieces.push(rest);
+
+  return pieces;
+}
+
+// Pack lines joined by '\n' into pieces of at most `limit` characters
+function packLines(lines: string[], limit: number): string[] {
+  const pieces: string[] = [];
+  let current = '';
+
+  for (const line of lines) {
+    const parts = line.length > limit ? splitLongLine(line, limit) : [line];
+    for (const part of parts) {
+      if (!current) {
+        current = part;
+      } else if (current.length + 1 + part.length <= limit) {
+        current += `\n${part}`;
+      } else {
+        pieces.push(current);
+        current = part;
+      }
+    }
+  }
+  if (current) pieces.push(current);
+
+  return pieces;
+}
+
+// Split a fenced code block so every piece is a complete, closed fence
+function splitCodeBlock(lines: string[], limit: number): string[] {
+  const openLine = lines[0];
+  const fence = (openLine.match(FENCE_OPEN_RE)?.[1] || '```').trim();
+  const hasClose = lines.length > 1 && isClosingFence(lines[lines.length - 1], fence);
+  const closeLine = hasClose ? lines[lines.length - 1] : fence;
+  const body = lines.slice(1, hasClose ? -1 : undefined);
+
+  const overhead = openLine.length + closeLine.length + 2;
+  const bodyLimit = Math.max(limit - overhead, 1);
+
+  return packLines(body, bodyLimit).map((piece) => `${openLine}\n${piece}\n${closeLine}`);
+}
+
+function toUnits(block: ParsedBlock, limit: number): TextUnit[] {
+  const whole = block.lines.join('\n');
+  if (whole.length <= limit) {
+    return [{ text: whole, joiner: '\n\n' }];
+  }
+
+  if (block.kind === 'code') {
+    return splitCodeBlock(block.lines, limit).map((text) => ({ text, joiner: '\n\n' }));
+  }
+
+  // Paragraphs and lists are split between lines, so list items stay intact
+  return packLines(block.lines, limit).map((text, index) => ({ text, joiner: index === 0 ? '\n\n' : '\n' }));
+}
+
+/**
+ * Split text into parts of at most `limit` characters without breaking markdown structure
+ */
+export function splitMessageText(text: string, limit: number = DEFAULT_TEXT_CHUNK_LIMIT): string[] {
+  if (text.length <= limit) return [text];
+
+  const units = parseBlocks(text).flatMap((block) => toUnits(block, limit));
+  const chunks: string[] = [];
+  let current = '';
+
+  for (const unit of units) {
+    if (!current) {
+      current = unit.text;
+    } else if (current.length + unit.joiner.length + unit.text.length <= limit) {
+      current += unit.joiner + unit.text;
+    } else {
+      chunks.push(current);
+      current = unit.text;
+    }
+  }
+  if (current) chunks.push(current);
+
+  return chunks.length > 0 ? chunks : [text];
+}
+
+/**
+ * Split text for sending and number the parts, e.g. "(1/3)", when there is more than one
+ */
+export function chunkOutgoingText(text: string, limit: number = DEFAULT_TEXT_CHUNK_LIMIT): string[] {
+  if (text.length <= limit) return [text];
+
+  const chunks = splitMessageText(text, Math.max(limit - PART_MARKER_RESERVE, 1));
+  if (chunks.length === 1) return chunks;
+
+  return chunks.map((chunk, index) => `${chunk}\n\n(${index + 1}/${chunks.length})`);
+}
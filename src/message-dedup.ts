@@ -0,0 +1,154 @@
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { getErrorMessage } from '../utils';
+import type { Logger, MessageDedupOptions, MessageDedupStats } from './types';
+
+const DEFAULT_DEDUP_TTL_MS = 30 * 60 * 1000;
+const DEFAULT_DEDUP_MAX_ENTRIES = 5000;
+
+// Delay before a changed store is written to disk, so bursts cause a single write
+const PERSIST_DEBOUNCE_MS = 1000;
+
+interface DedupStore {
+  // msgId -> expiresAt, in insertion order (oldest first)
+  entries: Map<string, number>;
+  dropped: number;
+  filePath: string | null;
+  saveTimer: NodeJS.Timeout | null;
+}
+
+// Seen-message stores per account
+const dedupStores = new Map<string, DedupStore>();
+
+function resolveStoreFile(accountId: string, storeDir?: string): string | null {
+  if (!storeDir) return null;
+  const safeAccountId = accountId.replace(/[^\w-]/g, '_');
+  return path.join(storeDir, `dingtalk-dedup-${safeAccountId}.json`);
+}
+
+// Load persisted entries, skipping the ones that already expired
+function loadPersistedEntries(filePath: string, log?: Logger): Map<string, number> {
+  const entries = new Map<string, number>();
+  try {
+    if (!fs.existsSync(filePath)) return entries;
+    const raw = JSON.parse(fs.readFileSync(filePath, 'utf8')) as Record<string, number>;
+    const now = Date.now();
+    for (const [msgId, expiresAt] of Object.entries(raw)) {
+      if (typeof expiresAt === 'number' && expiresAt > now) {
+        entries.set(msgId, expiresAt);
+      }
+    }
+    log?.debug?.(`[DingTalk] Loaded ${entries.size} seen message id(s) from ${filePath}`);
+  } catch (err) {
+    log?.warn?.(`[DingTalk] Failed to load message dedup store ${filePath}: ${getErrorMessage(err)}`);
+  }
+  return entries;
+}
+
+function persistStore(store: DedupStore, log?: Logger): void {
+  if (!store.filePath) return;
+  const filePath = store.filePath;
+  try {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    // Write to a temp file first so a crash never leaves a truncated store behind
+    const tmpPath = `${filePath}.tmp`;
+    fs.writeFileSync(tmpPath, JSON.stringify(Object.fromEntries(store.entries)));
+    fs.renameSync(tmpPath, filePath);
+  } catch (err) {
+    log?.warn?.(`[DingTalk] Failed to persist message dedup store ${filePath}: ${getErrorMessage(err)}`);
+  }
+}
+
+function schedulePersist(store: DedupStore, log?: Logger): void {
+  if (!store.filePath || store.saveTimer) return;
+  store.saveTimer = setTimeout(() => {
+    store.saveTimer = null;
+    persistStore(store, log);
+  }, PERSIST_DEBOUNCE_MS);
+}
+
+function getStore(accountId: string, options: MessageDedupOptions, log?: Logger): DedupStore {
+  const filePath = resolveStoreFile(accountId, options.storeDir);
+  let store = dedupStores.get(accountId);
+  if (!store || store.filePath !== filePath) {
+    store = {
+      entries: filePath ? loadPersistedEntries(filePath, log) : new Map(),
+      dropped: store?.dropped || 0,
+      filePath,
+      saveTimer: null,
+    };
+    dedupStores.set(accountId, store);
+  }
+  return store;
+}
+
+// Drop expired entries, then the oldest ones while over capacity
+function pruneStore(store: DedupStore, maxEntries: number): void {
+  const now = Date.now();
+  for (const [msgId, expiresAt] of store.entries) {
+    if (expiresAt <= now) store.entries.delete(msgId);
+  }
+  while (store.entries.size > maxEntries) {
+    const oldest = store.entries.keys().next().value;
+    if (oldest === undefined) break;
+    store.entries.delete(oldest);
+  }
+}
+
+/**
+ * Remember an inbound message id.
+ * Returns false when the message was already seen for this account within the TTL
+ * (i.e. it is a stream redelivery and should be dropped).
+ */
+export function markMessageSeen(
+  accountId: string,
+  msgId: string | undefined,
+  options: MessageDedupOptions = {},
+  log?: Logger
+): boolean {
+  if (!msgId) return true;
+
+  const ttlMs = options.ttlMs || DEFAULT_DEDUP_TTL_MS;
+  const maxEntries = options.maxEntries || DEFAULT_DEDUP_MAX_ENTRIES;
+  const store = getStore(accountId, options, log);
+  const now = Date.now();
+
+  const expiresAt = store.entries.get(msgId);
+  if (expiresAt && expiresAt > now) {
+    store.dropped++;
+    return false;
+  }
+
+  store.entries.delete(msgId);
+  store.entries.set(msgId, now + ttlMs);
+  if (store.entries.size > maxEntries) {
+    pruneStore(store, maxEntries);
+  }
+  schedulePersist(store, log);
+  return true;
+}
+
+/**
+ * Get de-duplication counters for an account
+ */
+export function getMessageDedupStats(accountId: string): MessageDedupStats {
+  const store = dedupStores.get(accountId);
+  return {
+    tracked: store?.entries.size || 0,
+    dropped: store?.dropped || 0,
+    persistent: Boolean(store?.filePath),
+  };
+}
+
+/**
+ * Write pending changes of an account's store to disk immediately (used on shutdown)
+ */
+export function flushMessageDedupStore(accountId: string, log?: Logger): void {
+  const store = dedupStores.get(accountId);
+  if (!store) return;
+  if (store.saveTimer) {
+    clearTimeout(store.saveTimer);
+    store.saveTimer = null;
+  }
+  persistStore(store, log);
+}
@@ -0,0 +1,62 @@
+import type { MessageContent, MessageMergeOptions } from './types';
+
+/**
+ * Inbound message merging.
+ * Users often send one thought as several quick messages (a picture, then the question); these are
+ * buffered for a short window and handled as one turn. This module holds the settings and the
+ * heuristic that decides when a message already looks complete, so the window can be skipped.
+ */
+
+const DEFAULT_MERGE_OPTIONS: Required<MessageMergeOptions> = {
+  enabled: true,
+  windowMs: 2000,
+  maxMessages: 5,
+  adaptive: true,
+  scope: 'sender',
+};
+
+// Endings that close a sentence or question, including sentence-final particles typed without punctuation
+const COMPLETE_ENDING_PATTERN = /(?:[。！？!?.~～）)」』"”'’\]】]|[吗呢吧么嘛啊呀哦])$/;
+// Endings that announce more to come: a colon, comma, or trailing ellipsis
+const CONTINUATION_ENDING_PATTERN = /(?:[:：,，、;；]|\.{2,}|…+)$/;
+
+/**
+ * Merge settings with defaults applied
+ */
+export function resolveMergeOptions(options?: MessageMergeOptions): Required<MessageMergeOptions> {
+  return {
+    enabled: options?.enabled ?? DEFAULT_MERGE_OPTIONS.enabled,
+    windowMs: options?.windowMs ?? DEFAULT_MERGE_OPTIONS.windowMs,
+    maxMessages: options?.maxMessages ?? DEFAULT_MERGE_OPTIONS.maxMessages,
+    adaptive: options?.adaptive ?? DEFAULT_MERGE_OPTIONS.adaptive,
+    scope: options?.scope ?? DEFAULT_MERGE_OPTIONS.scope,
+  };
+}
+
+/**
+ * Key of the merge buffer a message goes to: per sender within a conversation, or the whole conversation
+ */
+export function getMergeKey(
+  accountId: string,
+  conversationId: string,
+  senderId: string,
+  scope: MessageMergeOptions['scope']
+): string {
+  return scope === 'conversation' ? `${accountId}:${conversationId}` : `${accountId}:${senderId}:${conversationId}`;
+}
+
+/**
+ * Whether a message reads as a finished request, for adaptive merging.
+ * Media without text and text ending in a colon, comma or ellipsis usually have a follow-up;
+ * commands, voice messages and text ending in sentence punctuation or a final particle do not.
+ */
+export function looksComplete(content: MessageContent): boolean {
+  const text = content.text.trim();
+
+  if (content.messageType === 'audio') return true;
+  if (['picture', 'video', 'file'].includes(content.messageType)) return false;
+  if (!text || /^\[[^\]]*\]$/.test(text)) return false;
+  if (text.startsWith('/')) return true;
+  if (CONTINUATION_ENDING_PATTERN.test(text)) return false;
+  return COMPLETE_ENDING_PATTERN.test(text);
+}
@@ -0,0 +1,111 @@
+import type { DingTalkInboundMessage, DingTalkRepliedMessage, QuotedMessage, RichTextMediaFile } from './types';
+
+/**
+ * Quoted replies (引用回复).
+ * When a user replies to an earlier message, the stream payload carries the quoted message next to
+ * the reply text; this module turns it into text and media the agent can use as reply-to context.
+ */
+
+// Longest quoted text passed on; a quote is context, not the message itself
+const MAX_QUOTED_TEXT_LENGTH = 2000;
+
+// String field of a quoted rich text item; other values read as missing
+function stringField(item: Record<string, unknown>, key: string): string | undefined {
+  const value = item[key];
+  return typeof value === 'string' ? value : undefined;
+}
+
+// Text and media of one quoted rich text item. Quoted rich text may use the inbound component shape
+// ({ type, text, downloadCode }) or the reply shape ({ msgType, content, downloadCode }).
+function parseQuotedRichTextItem(item: Record<string, unknown>, mediaFiles: RichTextMediaFile[]): string {
+  const text = stringField(item, 'text');
+  const content = stringField(item, 'content');
+  const fileName = stringField(item, 'fileName');
+  const type =
+    stringField(item, 'type') ||
+    stringField(item, 'msgType') ||
+    (item.text !== undefined || item.content !== undefined ? 'text' : '');
+  const downloadCode = stringField(item, 'downloadCode') || stringField(item, 'pictureDownloadCode');
+
+  switch (type) {
+    case 'text':
+      return text ?? content ?? '';
+    case 'at': {
+      const atName = stringField(item, 'atName');
+      return atName ? `@${atName} ` : '';
+    }
+    case 'picture':
+    case 'image':
+      if (!downloadCode) return '[图片] ';
+      mediaFiles.push({
+        downloadCode,
+        fileName: fileName || `quoted_image_${mediaFiles.length + 1}`,
+        type: 'image',
+      });
+      return '[图片] ';
+    case 'file':
+      if (downloadCode) mediaFiles.push({ downloadCode, fileName, type: 'file' });
+      return `[文件: ${fileName || '文件'}] `;
+    case 'link': {
+      const url = stringField(item, 'url');
+      return url ? `[${text || '链接'}](${url}) ` : '';
+    }
+    default:
+      return text ?? '';
+  }
+}
+
+function parseQuotedContent(replied: DingTalkRepliedMessage): { text: string; mediaFiles: RichTextMediaFile[] } {
+  const content = replied.content || {};
+  const msgType = replied.msgType || (content.richText ? 'richText' : 'text');
+  const mediaFiles: RichTextMediaFile[] = [];
+  const downloadCode = content.downloadCode || content.pictureDownloadCode;
+
+  switch (msgType) {
+    case 'text':
+      return { text: content.text?.trim() || '', mediaFiles };
+    case 'richText': {
+      const text = (content.richText || []).map((item) => parseQuotedRichTextItem(item, mediaFiles)).join('');
+      return { text: text.trim() || '[富文本消息]', mediaFiles };
+    }
+    case 'picture':
+      if (downloadCode) {
+        mediaFiles.push({
+          downloadCode,
+          fileName: content.fileName || `quoted_${replied.msgId || 'image'}`,
+          type: 'image',
+        });
+      }
+      return { text: '[图片]', mediaFiles };
+    case 'file':
+      if (downloadCode) mediaFiles.push({ downloadCode, fileName: content.fileName, type: 'file' });
+      return { text: `[文件: ${content.fileName || '文件'}]`, mediaFiles };
+    case 'audio':
+      return { text: content.recognition || '[语音消息]', mediaFiles };
+    case 'video':
+      return { text: '[视频]', mediaFiles };
+    default:
+      return { text: content.text?.trim() || `[${msgType}消息]`, mediaFiles };
+  }
+}
+
+/**
+ * Quoted message of an inbound reply, or null when the message does not quote anything
+ */
+export function parseQuotedMessage(data: DingTalkInboundMessage): QuotedMessage | null {
+  // Text replies carry the quote on `text`, rich text replies on `content`
+  const replied = data.text?.repliedMsg || data.content?.repliedMsg;
+  if (!replied || typeof replied !== 'object') return null;
+
+  const { text, mediaFiles } = parseQuotedContent(replied);
+  if (!text && mediaFiles.length === 0) return null;
+
+  return {
+    msgId: replied.msgId,
+    senderId: replied.senderId,
+    senderName: replied.senderNick,
+    createdAt: replied.createdAt,
+    text: text.length > MAX_QUOTED_TEXT_LENGTH ? `${text.slice(0, MAX_QUOTED_TEXT_LENGTH)}…` : text,
+    mediaFiles,
+  };
+}
@@ -0,0 +1,132 @@
+import type { Logger, MessageReadStatus, TrackedReadStatus } from './types';
+import { getErrorMessage } from '../utils';
+
+/**
+ * Delivery / read status tracking for proactive messages.
+ * Sent messages are registered here and a per-app poller refreshes their read status
+ * until everyone has read them or they are too old to follow up on.
+ */
+
+const DEFAULT_POLL_INTERVAL_MS = 5 * 60 * 1000;
+const DEFAULT_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Options for the read status poller
+ */
+export interface ReadStatusPollerOptions {
+  clientId: string;
+  accountId: string;
+  /** Fetch the current read status of a message */
+  query: (conversationId: string, processQueryKey: string) => Promise<MessageReadStatus>;
+  intervalMs?: number;
+  /** Stop polling a message this long after it was sent */
+  maxAgeMs?: number;
+  log?: Logger;
+}
+
+// clientId -> processQueryKey -> tracked status
+const trackedMessages = new Map<string, Map<string, TrackedReadStatus>>();
+
+/**
+ * Start tracking the read status of a sent message
+ */
+export function trackReadStatus(clientId: string, conversationId: string, processQueryKey: string): void {
+  let tracked = trackedMessages.get(clientId);
+  if (!tracked) {
+    tracked = new Map();
+    trackedMessages.set(clientId, tracked);
+  }
+  tracked.set(processQueryKey, {
+    processQueryKey,
+    conversationId,
+    sentAt: Date.now(),
+    lastCheckedAt: null,
+    status: null,
+    done: false,
+  });
+}
+
+/**
+ * Stop tracking messages (e.g. after they were recalled)
+ */
+export function untrackReadStatus(clientId: string, processQueryKeys: string[]): void {
+  const tracked = trackedMessages.get(clientId);
+  if (!tracked) return;
+  for (const key of processQueryKeys) tracked.delete(key);
+}
+
+/**
+ * Latest recorded status of a tracked message (null if not tracked)
+ */
+export function getTrackedReadStatus(clientId: string, processQueryKey: string): TrackedReadStatus | null {
+  const entry = trackedMessages.get(clientId)?.get(processQueryKey);
+  return entry ? { ...entry } : null;
+}
+
+/**
+ * All tracked messages of an app, optionally only those still unread by someone
+ */
+export function listTrackedReadStatuses(clientId: string, options: { unreadOnly?: boolean } = {}): TrackedReadStatus[] {
+  const entries = [...(trackedMessages.get(clientId)?.values() || [])];
+  return entries
+    .filter((entry) => !options.unreadOnly || (entry.status?.unread.length ?? 0) > 0)
+    .map((entry) => ({ ...entry }));
+}
+
+/**
+ * Poll the read status of tracked messages of an app. Returns a stop function.
+ */
+export function startReadStatusPoller(options: ReadStatusPollerOptions): () => void {
+  const {
+    clientId,
+    accountId,
+    query,
+    intervalMs = DEFAULT_POLL_INTERVAL_MS,
+    maxAgeMs = DEFAULT_MAX_AGE_MS,
+    log,
+  } = options;
+  let polling = false;
+
+  const poll = async (): Promise<void> => {
+    const tracked = trackedMessages.get(clientId);
+    if (polling || !tracked || tracked.size === 0) return;
+    polling = true;
+
+    try {
+      const now = Date.now();
+      for (const entry of tracked.values()) {
+        if (entry.done) continue;
+
+        try {
+          entry.status = await query(entry.conversationId, entry.processQueryKey);
+          entry.lastCheckedAt = Date.now();
+        } catch (err) {
+          log?.debug?.(`[${accountId}] Read status query failed for ${entry.processQueryKey}: ${getErrorMessage(err)}`);
+        }
+
+        // Finished once everyone read it (1:1 messages report unread users) or it is too old
+        const allRead = entry.status !== null && entry.status.unreadKnown && entry.status.unread.length === 0;
+        if (allRead || now - entry.sentAt > maxAgeMs) {
+          entry.done = true;
+        }
+      }
+
+      // Keep finished entries for reporting until they age out
+      for (const [key, entry] of tracked) {
+        if (entry.done && now - entry.sentAt > maxAgeMs) tracked.delete(key);
+      }
+    } finally {
+      polling = false;
+    }
+  };
+
+  const timer = setInterval(() => {
+    void poll();
+  }, intervalMs);
+  timer.unref?.();
+  log?.info?.(`[${accountId}] Read status poller started (every ${Math.round(intervalMs / 1000)}s)`);
+
+  return () => {
+    clearInterval(timer);
+  };
+}
@@ -0,0 +1,219 @@
+import type { FeedCardLink, RichMessage, RichMessageButton, RichMessageWebhookBody } from './types';
+
+/**
+ * Outbound rich messages (actionCard, link, feedCard).
+ * Agents request them through structured `channelData.dingtalk` fields; this module validates
+ * those fields and builds the session webhook / proactive API message bodies for them.
+ */
+
+// Proactive templates: sampleActionCard2..5 have 2-5 vertical buttons, sampleActionCard6 two horizontal ones
+const MAX_PROACTIVE_BUTTONS = 5;
+
+// Fields of a channelData object; anything else reads as an object without fields
+function asRecord(value: unknown): Record<string, unknown> {
+  return value && typeof value === 'object' ? (value as Record<string, unknown>) : {};
+}
+
+const REPLY_URL_PREFIX = 'dtmd://dingtalkclient/sendMessage?content=';
+
+function requireString(value: unknown, field: string): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new Error(`[DingTalk] Rich message field ${field} is required`);
+  }
+  return value;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value : undefined;
+}
+
+// First line of the text without markdown heading marks, for cards sent without a title
+function titleFromText(text: string): string {
+  const firstLine = text.split('\n').find((line) => line.trim()) || '';
+  return (
+    firstLine
+      .replace(/^#+\s*/, '')
+      .trim()
+      .slice(0, 20) || 'Clawdbot 消息'
+  );
+}
+
+function parseButtons(value: unknown): RichMessageButton[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error('[DingTalk] Rich message field actionCard.buttons must list at least one button');
+  }
+  return value.map((item: unknown, i: number) => {
+    const button = asRecord(item);
+    const url = optionalString(button.url);
+    const reply = optionalString(button.reply);
+    if (!url && !reply) {
+      throw new Error(`[DingTalk] Rich message button ${i + 1} needs a url or a reply`);
+    }
+    return { title: requireString(button.title, `actionCard.buttons[${i}].title`), url, reply };
+  });
+}
+
+function parseFeedLinks(value: unknown): FeedCardLink[] {
+  if (!Array.isArray(value) || value.length === 0) {
+    throw new Error('[DingTalk] Rich message field feedCard.links must list at least one link');
+  }
+  return value.map((item: unknown, i: number) => {
+    const link = asRecord(item);
+    return {
+      title: requireString(link.title, `feedCard.links[${i}].title`),
+      messageUrl: requireString(link.messageUrl, `feedCard.links[${i}].messageUrl`),
+      picUrl: optionalString(link.picUrl),
+    };
+  });
+}
+
+/**
+ * Read a rich message from a reply payload's channelData (`channelData.dingtalk.actionCard` /
+ * `.link` / `.feedCard`). `fallbackText` fills in the card text when the agent left it out.
+ * Returns null when the payload does not ask for one.
+ */
+export function parseRichMessage(channelData: unknown, fallbackText?: string): RichMessage | null {
+  const data = asRecord(channelData).dingtalk;
+  if (!data || typeof data !== 'object') return null;
+  const fields = asRecord(data);
+
+  if (fields.actionCard) {
+    const card = asRecord(fields.actionCard);
+    const text = optionalString(card.text) || requireString(fallbackText, 'actionCard.text');
+    return {
+      type: 'actionCard',
+      title: optionalString(card.title) || titleFromText(text),
+      text,
+      buttons: parseButtons(card.buttons),
+      buttonOrientation: card.buttonOrientation === 'horizontal' ? 'horizontal' : 'vertical',
+    };
+  }
+
+  if (fields.link) {
+    const link = asRecord(fields.link);
+    return {
+      type: 'link',
+      title: requireString(link.title, 'link.title'),
+      text: optionalString(link.text) || requireString(fallbackText, 'link.text'),
+      messageUrl: requireString(link.messageUrl, 'link.messageUrl'),
+      picUrl: optionalString(link.picUrl),
+    };
+  }
+
+  if (fields.feedCard) {
+    return { type: 'feedCard', links: parseFeedLinks(asRecord(fields.feedCard).links) };
+  }
+
+  return null;
+}
+
+// URL a button opens; reply buttons send their text back to the robot as the user
+function getButtonUrl(button: RichMessageButton): string {
+  return button.url || `${REPLY_URL_PREFIX}${encodeURIComponent(button.reply || button.title)}`;
+}
+
+// Markdown version of a rich message, for the cases a template cannot express
+function toMarkdown(message: RichMessage): { title: string; text: string } {
+  switch (message.type) {
+    case 'actionCard': {
+      const links = message.buttons.map((button) => `[${button.title}](${getButtonUrl(button)})`).join('  ');
+      return { title: message.title, text: `${message.text}\n\n${links}` };
+    }
+    case 'link':
+      return { title: message.title, text: `[${message.title}](${message.messageUrl})\n\n${message.text}` };
+    case 'feedCard':
+      return {
+        title: message.links[0].title,
+        text: message.links.map((link) => `- [${link.title}](${link.messageUrl})`).join('\n'),
+      };
+  }
+}
+
+/**
+ * Build the session webhook message body for a rich message
+ */
+export function buildWebhookRichMessage(message: RichMessage): RichMessageWebhookBody {
+  switch (message.type) {
+    case 'actionCard': {
+      const actionCard: NonNullable<RichMessageWebhookBody['actionCard']> = {
+        title: message.title,
+        text: message.text,
+        btnOrientation: message.buttonOrientation === 'horizontal' ? '1' : '0',
+      };
+      if (message.buttons.length === 1) {
+        actionCard.singleTitle = message.buttons[0].title;
+        actionCard.singleURL = getButtonUrl(message.buttons[0]);
+      } else {
+        actionCard.btns = message.buttons.map((button) => ({ title: button.title, actionURL: getButtonUrl(button) }));
+      }
+      return { msgtype: 'actionCard', actionCard };
+    }
+    case 'link':
+      return {
+        msgtype: 'link',
+        link: {
+          title: message.title,
+          text: message.text,
+          messageUrl: message.messageUrl,
+          picUrl: message.picUrl || '',
+        },
+      };
+    case 'feedCard':
+      return {
+        msgtype: 'feedCard',
+        feedCard: {
+          links: message.links.map((link) => ({
+            title: link.title,
+            messageURL: link.messageUrl,
+            picURL: link.picUrl || '',
+          })),
+        },
+      };
+  }
+}
+
+/**
+ * Build the proactive API msgKey and msgParam for a rich message.
+ * Feed cards and action cards with more buttons than any template holds are sent as markdown.
+ * Only the two-button template is horizontal, so horizontal cards with 3+ buttons come out vertical.
+ */
+export function buildProactiveRichMessage(message: RichMessage): { msgKey: string; msgParam: string } {
+  if (message.type === 'link') {
+    return {
+      msgKey: 'sampleLink',
+      msgParam: JSON.stringify({
+        title: message.title,
+        text: message.text,
+        messageUrl: message.messageUrl,
+        picUrl: message.picUrl || '',
+      }),
+    };
+  }
+
+  if (message.type === 'actionCard' && message.buttons.length <= MAX_PROACTIVE_BUTTONS) {
+    const { title, text, buttons } = message;
+    if (buttons.length === 1) {
+      return {
+        msgKey: 'sampleActionCard',
+        msgParam: JSON.stringify({ title, text, singleTitle: buttons[0].title, singleURL: getButtonUrl(buttons[0]) }),
+      };
+    }
+
+    const params: Record<string, string> = { title, text };
+    if (buttons.length === 2 && message.buttonOrientation === 'horizontal') {
+      buttons.forEach((button, i) => {
+        params[`buttonTitle${i + 1}`] = button.title;
+        params[`buttonUrl${i + 1}`] = getButtonUrl(button);
+      });
+      return { msgKey: 'sampleActionCard6', msgParam: JSON.stringify(params) };
+    }
+
+    buttons.forEach((button, i) => {
+      params[`actionTitle${i + 1}`] = button.title;
+      params[`actionURL${i + 1}`] = getButtonUrl(button);
+    });
+    return { msgKey: `sampleActionCard${buttons.length}`, msgParam: JSON.stringify(params) };
+  }
+
+  return { msgKey: 'sampleMarkdown', msgParam: JSON.stringify(toMarkdown(message)) };
+}
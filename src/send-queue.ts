@@ -0,0 +1,271 @@
+import type { Logger, SendQueueOptions, SendQueueStats } from './types';
+
+/**
+ * Outbound send queue with token buckets per conversation and per app (clientId).
+ *
+ * Sends to the same conversation run one at a time in submission order. Queues created with
+ * `appLimitOnly` (card updates) keep that ordering but only use the app bucket. A send that
+ * DingTalk throttles is retried after the server's Retry-After hint (or a backoff)
+ * instead of failing, and stays at the head of its conversation's queue meanwhile.
+ */
+
+const DEFAULT_CONVERSATION_PER_MINUTE = 20;
+const DEFAULT_APP_PER_SECOND = 20;
+const DEFAULT_MAX_RETRIES = 8;
+const MAX_RETRY_DELAY_MS = 60000;
+
+// An idle conversation keeps its bucket this long, so its rate is not reset by a short pause
+const IDLE_CONVERSATION_TTL_MS = 60000;
+
+// DingTalk error codes for "too many requests"
+const THROTTLE_ERRCODES = [130101, 90018, 90002];
+const THROTTLE_CODE_RE = /QpsLimit|RateLimit|Throttl|FlowControl/i;
+const TRANSIENT_NETWORK_CODES = ['ECONNRESET', 'ETIMEDOUT', 'ECONNABORTED', 'EAI_AGAIN'];
+
+interface TokenBucket {
+  capacity: number;
+  tokens: number;
+  refillPerMs: number;
+  updatedAt: number;
+  // Set from a Retry-After hint: nothing is taken from the bucket before this time
+  blockedUntil: number;
+}
+
+interface QueuedSend {
+  run: () => Promise<unknown>;
+  resolve: (value: unknown) => void;
+  reject: (err: unknown) => void;
+  attempts: number;
+}
+
+// The parts of an axios response or error the retry decision looks at
+interface SendOutcome {
+  status?: number;
+  code?: string;
+  data?: { errcode?: unknown; code?: unknown };
+  headers?: Record<string, unknown>;
+  response?: SendOutcome;
+}
+
+interface ConversationQueue {
+  items: QueuedSend[];
+  bucket: TokenBucket;
+  running: boolean;
+  idleTimer: NodeJS.Timeout | null;
+}
+
+interface AppQueue {
+  bucket: TokenBucket;
+  conversations: Map<string, ConversationQueue>;
+  throttled: number;
+  retried: number;
+}
+
+// Queues per app (clientId)
+const appQueues = new Map<string, AppQueue>();
+
+// A capacity of Infinity makes an unlimited bucket that only honours Retry-After blocks
+function createBucket(capacity: number, periodMs: number): TokenBucket {
+  return {
+    capacity,
+    tokens: capacity,
+    refillPerMs: capacity / periodMs,
+    updatedAt: Date.now(),
+    blockedUntil: 0,
+  };
+}
+
+// Time (ms) until a token is available; 0 means one was taken
+function takeToken(bucket: TokenBucket): number {
+  const now = Date.now();
+  if (now < bucket.blockedUntil) return bucket.blockedUntil - now;
+  if (bucket.capacity === Infinity) return 0;
+
+  bucket.tokens = Math.min(bucket.capacity, bucket.tokens + (now - bucket.updatedAt) * bucket.refillPerMs);
+  bucket.updatedAt = now;
+  if (bucket.tokens >= 1) {
+    bucket.tokens -= 1;
+    return 0;
+  }
+  return Math.ceil((1 - bucket.tokens) / bucket.refillPerMs);
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+// Retry-After is either delta seconds or an HTTP date
+function parseRetryAfter(value: unknown): number | null {
+  if (value === undefined || value === null || value === '') return null;
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(String(value));
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Classify a send outcome (axios response or error).
+ * Returns the delay before retrying when it was throttled or hit a transient network error, else null.
+ */
+function getRetryDelay(outcome: unknown, attempts: number): { delayMs: number; throttled: boolean } | null {
+  const result = outcome as SendOutcome | null | undefined;
+  const response = result?.response ?? (result?.status !== undefined ? result : undefined);
+  const data = response?.data;
+  const throttled =
+    response?.status === 429 ||
+    THROTTLE_ERRCODES.includes(Number(data?.errcode)) ||
+    THROTTLE_CODE_RE.test(String(data?.code || ''));
+  const transient = outcome instanceof Error && TRANSIENT_NETWORK_CODES.includes(String(result?.code));
+
+  if (!throttled && !transient) return null;
+
+  const hinted = parseRetryAfter(response?.headers?.['retry-after']);
+  const backoff = 1000 * Math.pow(2, attempts - 1);
+  return { delayMs: Math.min(MAX_RETRY_DELAY_MS, hinted ?? backoff), throttled };
+}
+
+function getAppQueue(appKey: string, options: SendQueueOptions): AppQueue {
+  let app = appQueues.get(appKey);
+  if (!app) {
+    app = {
+      bucket: createBucket(options.appPerSecond || DEFAULT_APP_PER_SECOND, 1000),
+      conversations: new Map(),
+      throttled: 0,
+      retried: 0,
+    };
+    appQueues.set(appKey, app);
+  }
+  return app;
+}
+
+async function drainConversation(
+  app: AppQueue,
+  conversationKey: string,
+  conversation: ConversationQueue,
+  options: SendQueueOptions,
+  log?: Logger
+): Promise<void> {
+  const maxRetries = options.maxRetries ?? DEFAULT_MAX_RETRIES;
+  conversation.running = true;
+
+  while (conversation.items.length > 0) {
+    const item = conversation.items[0];
+
+    // Both buckets must have a token; wait for whichever is empty
+    let wait = takeToken(conversation.bucket);
+    while (wait > 0) {
+      await sleep(wait);
+      wait = takeToken(conversation.bucket);
+    }
+    wait = takeToken(app.bucket);
+    while (wait > 0) {
+      await sleep(wait);
+      wait = takeToken(app.bucket);
+    }
+
+    item.attempts++;
+    let outcome: unknown;
+    let failed = false;
+    try {
+      outcome = await item.run();
+    } catch (err) {
+      outcome = err;
+      failed = true;
+    }
+
+    const retry = getRetryDelay(outcome, item.attempts);
+    if (retry && item.attempts <= maxRetries) {
+      if (retry.throttled) app.throttled++;
+      app.retried++;
+      log?.warn?.(
+        `[DingTalk] Send to ${conversationKey} ${retry.throttled ? 'throttled' : 'failed'}, retrying in ${retry.delayMs}ms (attempt ${item.attempts}/${maxRetries})`
+      );
+      // Hold back the whole conversation (and the app, for app-wide limits) until the hint expires
+      conversation.bucket.blockedUntil = Date.now() + retry.delayMs;
+      if ((outcome as SendOutcome | undefined)?.response?.status === 429) {
+        app.bucket.blockedUntil = Math.max(app.bucket.blockedUntil, Date.now() + retry.delayMs);
+      }
+      continue;
+    }
+
+    conversation.items.shift();
+    if (failed) {
+      item.reject(outcome);
+    } else if (retry?.throttled) {
+      // A throttled response is not a delivery, even though the request itself succeeded
+      const data = (outcome as SendOutcome | undefined)?.data;
+      item.reject(
+        new Error(
+          `[DingTalk] Send to ${conversationKey} still throttled after ${maxRetries} retries: ${String(data?.errcode ?? data?.code)}`
+        )
+      );
+    } else {
+      item.resolve(outcome);
+    }
+  }
+
+  conversation.running = false;
+  conversation.idleTimer = setTimeout(() => {
+    if (!conversation.running && conversation.items.length === 0) {
+      app.conversations.delete(conversationKey);
+    }
+  }, IDLE_CONVERSATION_TTL_MS);
+  conversation.idleTimer.unref?.();
+}
+
+/**
+ * Queue a send for a conversation of an app.
+ * `run` performs the actual request; it is retried on throttling, so it must be safe to repeat.
+ */
+export function enqueueSend<T>(
+  appKey: string,
+  conversationKey: string,
+  run: () => Promise<T>,
+  options: SendQueueOptions = {},
+  log?: Logger
+): Promise<T> {
+  const app = getAppQueue(appKey || 'default', options);
+  let conversation = app.conversations.get(conversationKey);
+  if (!conversation) {
+    conversation = {
+      items: [],
+      bucket: createBucket(
+        options.appLimitOnly ? Infinity : options.conversationPerMinute || DEFAULT_CONVERSATION_PER_MINUTE,
+        60000
+      ),
+      running: false,
+      idleTimer: null,
+    };
+    app.conversations.set(conversationKey, conversation);
+  }
+  if (conversation.idleTimer) {
+    clearTimeout(conversation.idleTimer);
+    conversation.idleTimer = null;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    conversation.items.push({ run, resolve: resolve as (value: unknown) => void, reject, attempts: 0 });
+    if (!conversation.running) {
+      void drainConversation(app, conversationKey, conversation, options, log);
+    }
+  });
+}
+
+/**
+ * Get queue depth and throttling counters of an app
+ */
+export function getSendQueueStats(appKey?: string): SendQueueStats {
+  const app = appQueues.get(appKey || 'default');
+  let depth = 0;
+  let conversations = 0;
+  for (const conversation of app?.conversations.values() || []) {
+    depth += conversation.items.length;
+    if (conversation.items.length > 0) conversations++;
+  }
+  return {
+    depth,
+    conversations,
+    throttled: app?.throttled || 0,
+    retried: app?.retried || 0,
+  };
+}
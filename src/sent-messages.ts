@@ -0,0 +1,66 @@
+import type { SentMessageRecord } from './types';
+
+/**
+ * Recently sent robot messages per conversation, kept so they can be recalled later.
+ * DingTalk identifies a robot message by the processQueryKey returned when it is sent,
+ * and only allows recalling it within 24 hours.
+ */
+
+const RECALL_WINDOW_MS = 24 * 60 * 60 * 1000;
+const MAX_RECORDS_PER_CONVERSATION = 50;
+
+// `${clientId}:${conversationId}` -> sent messages, oldest first
+const sentMessages = new Map<string, SentMessageRecord[]>();
+
+function getKey(clientId: string | undefined, conversationId: string): string {
+  return `${clientId || '-'}:${conversationId}`;
+}
+
+function pruneExpired(records: SentMessageRecord[]): SentMessageRecord[] {
+  const cutoff = Date.now() - RECALL_WINDOW_MS;
+  return records.filter((record) => record.sentAt > cutoff);
+}
+
+/**
+ * Remember the processQueryKey of a message sent to a conversation
+ */
+export function recordSentMessage(
+  clientId: string | undefined,
+  conversationId: string,
+  processQueryKey: string | undefined
+): void {
+  if (!processQueryKey) return;
+
+  const key = getKey(clientId, conversationId);
+  const records = pruneExpired(sentMessages.get(key) || []);
+  records.push({ processQueryKey, conversationId, sentAt: Date.now() });
+  sentMessages.set(key, records.slice(-MAX_RECORDS_PER_CONVERSATION));
+}
+
+/**
+ * Messages sent to a conversation that can still be recalled, oldest first
+ */
+export function getSentMessages(clientId: string | undefined, conversationId: string): SentMessageRecord[] {
+  const key = getKey(clientId, conversationId);
+  const records = pruneExpired(sentMessages.get(key) || []);
+  if (records.length > 0) sentMessages.set(key, records);
+  else sentMessages.delete(key);
+  return [...records];
+}
+
+/**
+ * Drop recalled messages from the record
+ */
+export function forgetSentMessages(
+  clientId: string | undefined,
+  conversationId: string,
+  processQueryKeys: string[]
+): void {
+  const key = getKey(clientId, conversationId);
+  const records = sentMessages.get(key);
+  if (!records) return;
+
+  const remaining = records.filter((record) => !processQueryKeys.includes(record.processQueryKey));
+  if (remaining.length > 0) sentMessages.set(key, remaining);
+  else sentMessages.delete(key);
+}
@@ -0,0 +1,110 @@
+import type { BusyPolicy, Logger } from './types';
+
+/**
+ * Per-session inbound coordination.
+ * A message for a session whose previous reply is still running is handled by the busy policy:
+ * - queue: wait until the running reply (and any queued before it) is done
+ * - interrupt: abort the running reply and answer again with its input and the new message
+ * - steer: pass the message on right away, next to the running turn; OpenClaw adds it to the
+ *   running turn when the session's queue mode is `steer` (messages.queue.mode)
+ */
+
+interface SessionTurnState {
+  text: string;
+  controller: AbortController;
+  done: Promise<void>;
+  /** The turn this one waits for, until it is released */
+  previous?: SessionTurnState;
+  released: boolean;
+}
+
+// sessionKey -> latest turn (running, or waiting for the one before it)
+const latestTurns = new Map<string, SessionTurnState>();
+
+/**
+ * A turn admitted by the coordinator
+ */
+export interface SessionTurn {
+  /** Input of the turn: the message, or after an interrupt the interrupted input plus the message */
+  text: string;
+  /** Aborted when a later message interrupts this turn */
+  signal: AbortSignal;
+  /** Policy applied because the session was busy; null when it was idle */
+  appliedPolicy: BusyPolicy | null;
+  /** End the turn; call once its reply is done, whatever the outcome */
+  release: () => void;
+}
+
+/**
+ * Abort the running and waiting turns of a session (e.g. on /stop). Returns false when it was idle.
+ */
+export function abortSessionTurns(sessionKey: string): boolean {
+  let turn = latestTurns.get(sessionKey);
+  if (!turn) return false;
+  while (turn) {
+    if (!turn.released) turn.controller.abort();
+    turn = turn.previous;
+  }
+  return true;
+}
+
+/**
+ * Admit a message to its session. Resolves when the turn may start dispatching, or with null
+ * when a later message interrupted it while it was still waiting.
+ */
+export async function beginSessionTurn(
+  sessionKey: string,
+  text: string,
+  policy: BusyPolicy,
+  log?: Logger
+): Promise<SessionTurn | null> {
+  const previous = latestTurns.get(sessionKey);
+  const controller = new AbortController();
+
+  // Steered messages join the running turn instead of becoming one; they neither wait for it
+  // nor hold up the messages after them
+  if (previous && policy === 'steer') {
+    log?.info?.(`[DingTalk] Session ${sessionKey} is busy, steering the message into the running turn`);
+    return { text, signal: controller.signal, appliedPolicy: 'steer', release: () => {} };
+  }
+
+  let finish!: () => void;
+  const done = new Promise<void>((resolve) => {
+    finish = resolve;
+  });
+  const combinedText = previous && policy === 'interrupt' ? `${previous.text}\n\n${text}` : text;
+  const turn: SessionTurnState = { text: combinedText, controller, done, previous, released: false };
+  latestTurns.set(sessionKey, turn);
+
+  const release = (): void => {
+    if (turn.released) return;
+    turn.released = true;
+    turn.previous = undefined;
+    finish();
+    if (latestTurns.get(sessionKey) === turn) latestTurns.delete(sessionKey);
+  };
+
+  if (previous) {
+    if (policy === 'interrupt') {
+      log?.info?.(`[DingTalk] Session ${sessionKey} is busy, interrupting the running reply`);
+      previous.controller.abort();
+    } else {
+      log?.info?.(`[DingTalk] Session ${sessionKey} is busy, queueing the message`);
+    }
+    await previous.done;
+    turn.previous = undefined;
+  }
+
+  // Interrupted by a later message before it got to run
+  if (controller.signal.aborted) {
+    release();
+    return null;
+  }
+
+  return {
+    text: combinedText,
+    signal: controller.signal,
+    appliedPolicy: previous ? policy : null,
+    release,
+  };
+}
@@ -34,15 +34,120 @@ export interface DingTalkConfig extends OpenClawConfig {
   dmPolicy?: 'open' | 'pairing' | 'allowlist';
   groupPolicy?: 'open' | 'allowlist';
   allowFrom?: string[];
+  groupAllowFrom?: string[];
+  groupSenderAllowFrom?: Record<string, string[]>;
+  groupDenyMessage?: string;
+  groups?: Record<string, DingTalkGroupConfig>;
   showThinking?: boolean;
   debug?: boolean;
-  messageType?: 'text' | 'markdown' | 'card';
+  messageType?: 'text' | 'markdown' | 'card' | 'aicard';
   cardTemplateId?: string;
   cardSendApiUrl?: string;
   cardUpdateApiUrl?: string;
+  cardCallbacks?: boolean;
+  cardCallbackRouteKey?: string;
+  cardCallbackAckText?: string;
+  aiCardTemplateId?: string;
+  aiCardContentKey?: string;
+  aiCardStreamIntervalMs?: number;
+  shutdownTimeoutMs?: number;
+  reconnectBaseDelayMs?: number;
+  reconnectMaxDelayMs?: number;
+  heartbeatTimeoutMs?: number;
+  textChunkLimit?: number;
+  mediaMaxBytes?: number;
+  mediaDownloadTimeoutMs?: number;
+  sendRateConversationPerMinute?: number;
+  sendRateAppPerSecond?: number;
+  sendMaxRetries?: number;
+  recallThinkingMessage?: boolean;
+  readStatusPollIntervalMs?: number;
+  readStatusMaxAgeMs?: number;
+  markdown?: MarkdownRenderOptions;
+  merge?: MessageMergeOptions;
+  busyPolicy?: BusyPolicy;
+  busyAck?: boolean;
+  nativeCommands?: boolean;
+  commandPrefix?: string;
+  commandAllowFrom?: string[];
+  dedupTtlMs?: number;
+  dedupMaxEntries?: number;
+  dedupStoreDir?: string;
   accounts?: Record<string, DingTalkConfig>;
 }
 
+/**
+ * Per-group configuration overrides
+ */
+export interface DingTalkGroupConfig {
+  enabled?: boolean;
+  requireMention?: boolean;
+  messageType?: 'text' | 'markdown' | 'card' | 'aicard';
+  showThinking?: boolean;
+  agentId?: string;
+}
+
+/**
+ * Inbound message merging: quick successive messages are buffered and handled as one turn
+ */
+export interface MessageMergeOptions {
+  enabled?: boolean;
+  /** How long (ms) to wait for more messages after the first one */
+  windowMs?: number;
+  /** Handle the buffer as soon as it holds this many messages */
+  maxMessages?: number;
+  /** Handle a message right away when it looks complete instead of waiting out the window */
+  adaptive?: boolean;
+  /** Buffer per sender, or per conversation so a group's interleaved messages stay in order */
+  scope?: 'sender' | 'conversation';
+}
+
+/**
+ * What to do with a message that arrives while the session's previous reply is still running
+ */
+export type BusyPolicy = 'queue' | 'interrupt' | 'steer';
+
+/**
+ * A slash command recognised in DingTalk conversations
+ */
+export interface DingTalkCommand {
+  /** OpenClaw command name, without the slash */
+  name: string;
+  /** Other names users can type, e.g. Chinese ones */
+  aliases?: string[];
+  description: string;
+  /** Only senders with command authorization may use it */
+  requiresAuth: boolean;
+  /** Chat types the command is available in (all when unset) */
+  chatTypes?: Array<'direct' | 'group'>;
+}
+
+/**
+ * A command parsed from an inbound message
+ */
+export interface ParsedCommand {
+  command: DingTalkCommand;
+  args: string;
+  /** Command text handed to OpenClaw, e.g. `/model gpt-4o` */
+  openclawText: string;
+}
+
+/**
+ * Markdown conversions applied to outgoing markdown messages
+ */
+export interface MarkdownRenderOptions {
+  /** Render tables as bullet rows, as an aligned code block, or leave them as-is */
+  tables?: 'bullets' | 'code' | 'off';
+  /** Turn task list checkboxes into ☐ / ☑ */
+  taskLists?: boolean;
+  /** Flatten nested lists into indented top-level items */
+  flattenLists?: boolean;
+  /** Drop the language tag of fenced code blocks */
+  stripCodeLanguage?: boolean;
+  /** Escape inline HTML tags so they are shown instead of dropped */
+  escapeHtml?: boolean;
+}
+
 /**
  * Multi-account DingTalk configuration wrapper
  */
@@ -56,12 +161,45 @@ export interface DingTalkChannelConfig {
   dmPolicy?: 'open' | 'pairing' | 'allowlist';
   groupPolicy?: 'open' | 'allowlist';
   allowFrom?: string[];
+  groupAllowFrom?: string[];
+  groupSenderAllowFrom?: Record<string, string[]>;
+  groupDenyMessage?: string;
+  groups?: Record<string, DingTalkGroupConfig>;
   showThinking?: boolean;
   debug?: boolean;
-  messageType?: 'text' | 'markdown' | 'card';
+  messageType?: 'text' | 'markdown' | 'card' | 'aicard';
   cardTemplateId?: string;
   cardSendApiUrl?: string;
   cardUpdateApiUrl?: string;
+  cardCallbacks?: boolean;
+  cardCallbackRouteKey?: string;
+  cardCallbackAckText?: string;
+  aiCardTemplateId?: string;
+  aiCardContentKey?: string;
+  aiCardStreamIntervalMs?: number;
+  shutdownTimeoutMs?: number;
+  reconnectBaseDelayMs?: number;
+  reconnectMaxDelayMs?: number;
+  heartbeatTimeoutMs?: number;
+  textChunkLimit?: number;
+  mediaMaxBytes?: number;
+  mediaDownloadTimeoutMs?: number;
+  sendRateConversationPerMinute?: number;
+  sendRateAppPerSecond?: number;
+  sendMaxRetries?: number;
+  recallThinkingMessage?: boolean;
+  readStatusPollIntervalMs?: number;
+  readStatusMaxAgeMs?: number;
+  markdown?: MarkdownRenderOptions;
+  merge?: MessageMergeOptions;
+  busyPolicy?: BusyPolicy;
+  busyAck?: boolean;
+  nativeCommands?: boolean;
+  commandPrefix?: string;
+  commandAllowFrom?: string[];
+  dedupTtlMs?: number;
+  dedupMaxEntries?: number;
+  dedupStoreDir?: string;
   accounts?: Record<string, DingTalkConfig>;
 }
 
@@ -81,6 +219,30 @@ export interface TokenResponse {
   expireIn: number;
 }
 
+/**
+ * Cached access token for one DingTalk application
+ */
+export interface AccessTokenCacheEntry {
+  accessToken: string;
+  expiresAt: number;
+  obtainedAt: number;
+  clientId?: string;
+  corpId?: string;
+}
+
+/**
+ * Access token cache state (token value omitted) for inspection
+ */
+export interface AccessTokenCacheInfo {
+  cacheKey: string;
+  clientId?: string;
+  corpId?: string;
+  obtainedAt: number;
+  expiresAt: number;
+  valid: boolean;
+  refreshing: boolean;
+}
+
 /**
  * DingTalk API generic response wrapper
  */
@@ -152,6 +314,48 @@ export interface MediaUploadResponse {
   createdAt?: string;
 }
 
+/**
+ * Message type an outbound media file is sent as
+ */
+export type OutboundMediaType = 'image' | 'voice' | 'video' | 'file';
+
+/**
+ * Limits for fetching remote or inline media before upload
+ */
+export interface MediaSourceOptions {
+  maxBytes?: number;
+  /** Limit for the whole download, body included */
+  timeoutMs?: number;
+  /** Type the media is sent as; fetched content must match it. Taken from the URL's extension when not set. */
+  mediaType?: OutboundMediaType;
+}
+
+/**
+ * Media reference resolved to a local file
+ */
+export interface ResolvedMediaSource {
+  path: string;
+  /** Name shown to the recipient */
+  fileName: string;
+  contentType?: string;
+  /** True for downloaded / decoded temp files that must be removed after upload */
+  temporary: boolean;
+}
+
+/**
+ * Uploaded media file, ready to be sent as a message
+ */
+export interface OutboundMedia {
+  type: OutboundMediaType;
+  mediaId: string;
+  fileName: string;
+  fileType: string;
+  /** Playback duration for voice and video messages */
+  durationMs?: number;
+  /** Cover image for video messages */
+  coverMediaId?: string;
+}
+
 /**
  * File message content for sending files
  */
@@ -161,16 +365,106 @@ export interface FileMessageContent {
   fileType: string;
 }
 
+/**
+ * @mentions in a session webhook body
+ */
+export interface WebhookAtMentions {
+  atUserIds: string[];
+  atMobiles?: string[];
+  isAtAll: boolean;
+}
+
 /**
  * Session webhook response with file message
  */
 export interface FileMessageWebhookResponse {
   msgtype: 'file';
   file: FileMessageContent;
-  at?: {
-    atUserIds: string[];
-    isAtAll: boolean;
+  at?: WebhookAtMentions;
+}
+
+/**
+ * Session webhook body for native media messages (image, voice, video, file)
+ */
+export interface MediaMessageWebhookResponse {
+  msgtype: 'image' | 'audio' | 'video' | 'file';
+  image?: { mediaId: string };
+  audio?: { mediaId: string; duration: string };
+  video?: { videoMediaId: string; videoType: string; duration: string; picMediaId?: string };
+  file?: FileMessageContent;
+  at?: WebhookAtMentions;
+}
+
+/**
+ * A button of an action card. `reply` makes the button send that text back to the
+ * robot as the user (dtmd://dingtalkclient/sendMessage) instead of opening a URL.
+ */
+export interface RichMessageButton {
+  title: string;
+  url?: string;
+  reply?: string;
+}
+
+/**
+ * Action card: markdown text with one or more buttons
+ */
+export interface ActionCardMessage {
+  type: 'actionCard';
+  title: string;
+  text: string;
+  buttons: RichMessageButton[];
+  buttonOrientation?: 'horizontal' | 'vertical';
+}
+
+/**
+ * Link preview message
+ */
+export interface LinkMessage {
+  type: 'link';
+  title: string;
+  text: string;
+  messageUrl: string;
+  picUrl?: string;
+}
+
+/**
+ * A link in a feed card
+ */
+export interface FeedCardLink {
+  title: string;
+  messageUrl: string;
+  picUrl?: string;
+}
+
+/**
+ * Feed card: a list of link previews
+ */
+export interface FeedCardMessage {
+  type: 'feedCard';
+  links: FeedCardLink[];
+}
+
+/**
+ * Outbound rich message, requested by the agent via `channelData.dingtalk`
+ */
+export type RichMessage = ActionCardMessage | LinkMessage | FeedCardMessage;
+
+/**
+ * Session webhook body for rich messages (actionCard, link, feedCard, or markdown as a fallback)
+ */
+export interface RichMessageWebhookBody {
+  msgtype: 'actionCard' | 'link' | 'feedCard' | 'markdown';
+  actionCard?: {
+    title: string;
+    text: string;
+    btnOrientation: '0' | '1';
+    singleTitle?: string;
+    singleURL?: string;
+    btns?: Array<{ title: string; actionURL: string }>;
   };
+  link?: { title: string; text: string; messageUrl: string; picUrl: string };
+  feedCard?: { links: Array<{ title: string; messageURL: string; picURL: string }> };
+  markdown?: { title: string; text: string };
 }
 
 /**
@@ -182,12 +476,16 @@ export interface DingTalkInboundMessage {
   createAt: number;
   text?: {
     content: string;
+    /** Set when the user replied to (quoted) an earlier message */
+    isReplyMsg?: boolean;
+    repliedMsg?: DingTalkRepliedMessage;
   };
   content?: {
     downloadCode?: string;
     fileName?: string;
     recognition?: string;
     richText?: RichTextComponent[];
+    repliedMsg?: DingTalkRepliedMessage;
   };
   conversationType: string;
   conversationId: string;
@@ -197,6 +495,176 @@ export interface DingTalkInboundMessage {
   senderNick?: string;
   chatbotUserId: string;
   sessionWebhook: string;
+  sessionWebhookExpiredTime?: number;
+  isInAtList?: boolean;
+  /** Users @mentioned in the message (plain text messages; rich text uses `at` components) */
+  atUsers?: Array<{ dingtalkId: string; staffId?: string }>;
+  /** Set on messages synthesized from interactive card callbacks */
+  cardAction?: CardActionPayload;
+}
+
+/**
+ * An @mention in an inbound message
+ */
+export interface InboundMention {
+  /** dingtalkId of the mentioned user (the id `chatbotUserId` is compared against) */
+  userId?: string;
+  /** Staff ID, when DingTalk reports it; this is the id outbound @mentions (atUserIds) use */
+  staffId?: string;
+  name?: string;
+  /** The mention is of this robot */
+  isBot: boolean;
+  /** @所有人 */
+  isAtAll: boolean;
+}
+
+/**
+ * The quoted message of a reply, as carried in the stream payload
+ */
+export interface DingTalkRepliedMessage {
+  msgId?: string;
+  msgType?: string;
+  senderId?: string;
+  senderNick?: string;
+  createdAt?: number;
+  content?: {
+    text?: string;
+    /** Quoted rich text; items use either the inbound component shape or `{ msgType, content }` */
+    richText?: Array<Record<string, unknown>>;
+    downloadCode?: string;
+    pictureDownloadCode?: string;
+    fileName?: string;
+    recognition?: string;
+  };
+}
+
+/**
+ * Quoted message parsed from a reply, passed to the agent as reply-to context
+ */
+export interface QuotedMessage {
+  msgId?: string;
+  senderId?: string;
+  senderName?: string;
+  createdAt?: number;
+  text: string;
+  /** Media in the quoted message, downloaded along with the reply */
+  mediaFiles: RichTextMediaFile[];
+}
+
+/**
+ * A button press or form submit on an interactive card
+ */
+export interface CardActionPayload {
+  /** cardBizId (outTrackId) of the card */
+  cardBizId: string;
+  /** Ids of the actions (buttons) triggered */
+  actionIds: string[];
+  /** Action parameters / submitted form values */
+  params: Record<string, unknown>;
+  userId: string;
+  /** User ID for direct chats, openConversationId (cid...) for groups */
+  conversationId: string;
+}
+
+/**
+ * A sent robot message that can be recalled
+ */
+export interface SentMessageRecord {
+  processQueryKey: string;
+  conversationId: string;
+  sentAt: number;
+}
+
+/**
+ * Outcome of a recall request
+ */
+export interface RecallMessageResult {
+  /** processQueryKeys that were recalled */
+  recalled: string[];
+  /** processQueryKey -> reason, for the ones DingTalk refused */
+  failed: Record<string, string>;
+}
+
+/**
+ * A recipient in a read status query
+ */
+export interface MessageReader {
+  userId: string;
+  name?: string;
+  /** When the message was read (ms), if DingTalk reports it */
+  readAt?: number;
+}
+
+/**
+ * Read status of a robot message, by processQueryKey
+ */
+export interface MessageReadStatus {
+  processQueryKey: string;
+  /** Delivery status reported for 1:1 messages, e.g. SUCCESS / PROCESSING */
+  sendStatus?: string;
+  read: MessageReader[];
+  unread: MessageReader[];
+  /** Group messages only report readers, so `unread` is always empty for them */
+  unreadKnown: boolean;
+}
+
+/**
+ * A sent message whose read status is polled in the background
+ */
+export interface TrackedReadStatus {
+  processQueryKey: string;
+  conversationId: string;
+  sentAt: number;
+  lastCheckedAt: number | null;
+  status: MessageReadStatus | null;
+  /** No longer polled: read by everyone or past the max age */
+  done: boolean;
+}
+
+/**
+ * Outbound send queue limits
+ */
+export interface SendQueueOptions {
+  /** Messages per minute to a single conversation */
+  conversationPerMinute?: number;
+  /** Skip the per-conversation limit (card updates, which edit a card rather than post a message) */
+  appLimitOnly?: boolean;
+  /** Requests per second for the whole app (clientId) */
+  appPerSecond?: number;
+  /** Retries of a throttled send before it fails */
+  maxRetries?: number;
+}
+
+/**
+ * Outbound send queue counters of an app
+ */
+export interface SendQueueStats {
+  /** Sends waiting or in progress */
+  depth: number;
+  /** Conversations with pending sends */
+  conversations: number;
+  /** Sends DingTalk throttled */
+  throttled: number;
+  /** Retries after throttling or transient network errors */
+  retried: number;
+}
+
+/**
+ * Inbound message de-duplication options
+ */
+export interface MessageDedupOptions {
+  ttlMs?: number;
+  maxEntries?: number;
+  storeDir?: string;
+}
+
+/**
+ * Inbound message de-duplication counters
+ */
+export interface MessageDedupStats {
+  tracked: number;
+  dropped: number;
+  persistent: boolean;
 }
 
 /**
@@ -207,6 +675,10 @@ export interface MessageContent {
   mediaPath?: string;
   mediaType?: string;
   messageType: string;
+  /** The message this one replies to, if it is a quoted reply */
+  quoted?: QuotedMessage;
+  /** @mentions in the message, the robot's own included */
+  mentions?: InboundMention[];
 }
 
 /**
@@ -228,10 +700,13 @@ export interface MergedMessageEntry {
     timestamp: number;
   }>;
   timer: NodeJS.Timeout;
+  /** Merge window of the entry, for stale entry cleanup */
+  windowMs: number;
   accountId: string;
   senderId: string;
   sessionKey: string;
   startTime: number;
+  params: HandleDingTalkMessageParams;
 }
 
 /**
@@ -241,9 +716,33 @@ export interface SendMessageOptions {
   title?: string;
   useMarkdown?: boolean;
   atUserId?: string | null;
+  /** More users to @mention (session webhook replies only) */
+  atUserIds?: string[];
+  /** Users to @mention by mobile number (session webhook replies only) */
+  atMobiles?: string[];
+  /** @all members of the group (session webhook replies only) */
+  isAtAll?: boolean;
+  /** Conversation the message belongs to, for per-conversation send ordering */
+  conversationId?: string;
+  /** Called after each part of a text message is delivered (session webhook replies only) */
+  onChunkSent?: () => void;
+  /** Parts of a multi-part text already delivered elsewhere, skipped here (proactive messages only) */
+  skipChunks?: number;
   log?: any;
 }
 
+/**
+ * Where to send a reply: the inbound sessionWebhook while it is valid, otherwise
+ * the proactive API to the same user or group conversation
+ */
+export interface ReplyTarget {
+  sessionWebhook?: string;
+  /** Expiry of the sessionWebhook (epoch ms), from the inbound message */
+  sessionWebhookExpiredTime?: number;
+  /** User ID for direct chats, openConversationId (cid...) for groups */
+  conversationId: string;
+}
+
 /**
  * Session webhook response
  */
@@ -256,10 +755,7 @@ export interface SessionWebhookResponse {
   text?: {
     content: string;
   };
-  at?: {
-    atUserIds: string[];
-    isAtAll: boolean;
-  };
+  at?: WebhookAtMentions;
 }
 
 /**
@@ -285,6 +781,16 @@ export interface ProactiveMessagePayload {
   userIds?: string[];
 }
 
+/**
+ * Result of a proactive send: the API response data of the last request, plus the
+ * processQueryKey of every part and batch (needed to recall or track the message)
+ */
+export interface ProactiveSendResult {
+  processQueryKey?: string;
+  processQueryKeys: string[];
+  [key: string]: unknown;
+}
+
 /**
  * Account descriptor
  */
@@ -305,6 +811,19 @@ export interface ResolvedAccount {
   enabled: boolean;
 }
 
+/**
+ * Group access policy of an account, as resolved for the security adapter
+ */
+export interface GroupPolicyResolution {
+  policy: 'open' | 'allowlist';
+  allowFrom: string[];
+  senderAllowFrom: Record<string, string[]>;
+  policyPath: string;
+  allowFromPath: string;
+  approveHint: string;
+  normalizeEntry: (raw: string) => string;
+}
+
 /**
  * HTTP request config for axios
  */
@@ -372,6 +891,20 @@ export interface Logger {
   error?: (message: string, ...args: any[]) => void;
 }
 
+/**
+ * Stream connection health, tracked by the connection supervisor
+ */
+export interface ConnectionStatus {
+  connected: boolean;
+  lastConnectedAt: number | null;
+  lastDisconnectedAt: number | null;
+  lastHeartbeatAt: number | null;
+  lastMessageAt: number | null;
+  lastError: string | null;
+  disconnects: number;
+  reconnectAttempts: number;
+}
+
 /**
  * Plugin gateway start context
  */
@@ -380,13 +913,15 @@ export interface GatewayStartContext {
   cfg: OpenClawConfig;
   abortSignal?: AbortSignal;
   log?: Logger;
+  getStatus?: () => Record<string, unknown>;
+  setStatus?: (next: Record<string, unknown>) => void;
 }
 
 /**
  * Plugin gateway account stop result
  */
 export interface GatewayStopResult {
-  stop: () => void;
+  stop: () => void | Promise<void>;
 }
 
 /**
@@ -422,6 +957,7 @@ export interface DingTalkChannelPlugin {
   };
   security: {
     resolveDmPolicy: (params: any) => any;
+    resolveGroupPolicy: (params: { account: ResolvedAccount }) => GroupPolicyResolution;
   };
   groups: {
     resolveRequireMention: (params: any) => boolean;
@@ -492,6 +1028,18 @@ export interface SendMediaParams {
   [key: string]: any;
 }
 
+/**
+ * Parameters for sendPayload delivery
+ */
+export interface SendPayloadParams {
+  cfg: OpenClawConfig;
+  to: string;
+  text?: string;
+  payload?: { text?: string; channelData?: unknown; mediaUrl?: string; mediaUrls?: string[] };
+  accountId?: string;
+  log?: Logger;
+}
+
 /**
  * DingTalk outbound handler configuration
  */
@@ -536,10 +1084,32 @@ export interface InteractiveCardSendRequest {
   singleChatReceiver?: string;
   cardData: string;
   callbackUrl?: string;
+  callbackRouteKey?: string;
   userIdPrivateDataMap?: string;
   unionIdPrivateDataMap?: string;
 }
 
+/**
+ * An AI card (card instance created from a streaming-capable template) being streamed
+ */
+export interface AICardInstance {
+  /** outTrackId the card instance was created with */
+  outTrackId: string;
+  conversationId: string;
+  /** Template variable the answer is streamed into */
+  contentKey: string;
+  /** Moved from the processing to the inputing state */
+  inputing: boolean;
+  lastStreamedAt: number;
+  /** Latest text waiting for the next throttled stream update */
+  pendingText: string | null;
+  flushTimer: NodeJS.Timeout | null;
+  /** Stream update being sent; settles (never rejects) when it is done */
+  inFlight: Promise<void> | null;
+  /** Finished or failed; no more updates are sent */
+  closed: boolean;
+}
+
 /**
  * Interactive card update request payload
  */
@@ -571,4 +1141,29 @@ export interface CardInstance {
   conversationId: string;
   createdAt: number;
   lastUpdated: number;
+  continuationCardBizIds?: string[];
+  /** Title and (rendered) text last sent, so the card can be re-sent with an acknowledgement */
+  title?: string;
+  text?: string;
+  /** Lifecycle state of a reply card (card mode) */
+  state?: CardState;
+  /** Tool calls / steps shown while the reply is in progress */
+  steps?: CardStep[];
+  /** Error summary shown when the reply failed */
+  error?: string;
+}
+
+/**
+ * Lifecycle of a reply card: sent as a thinking placeholder, showing tool progress,
+ * then replaced by the answer or an error
+ */
+export type CardState = 'pending' | 'in-progress' | 'completed' | 'failed';
+
+/**
+ * A tool call or step shown on an in-progress card
+ */
+export interface CardStep {
+  id: string;
+  label: string;
+  status: 'running' | 'done' | 'failed';
 }
@@ -38,6 +38,13 @@ export function maskSensitiveData(data: unknown): any {
   return masked;
 }
 
+/**
+ * Message of a caught error, for logging
+ */
+export function getErrorMessage(err: unknown): string {
+  return err instanceof Error ? err.message : String(err);
+}
+
 /**
  * Cleanup orphaned temp files from dingtalk media
  * Run at startup to clean up files from crashed processes